@@ -0,0 +1,559 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { SMARTSCHOOL_CONVENTIONS } from "./conventions.js";
+import { describeAccount, toRecords } from "./records.js";
+import { redactOutput } from "./redaction.js";
+import { AttendanceRangeSchema, AttendanceStatsSchema } from "./schemas.js";
+import type { Schools } from "./schools.js";
+
+/**
+ * @file Composite attendance tools built on the absence read methods
+ *
+ * The Smartschool API returns absences for one date or for one student's
+ * whole school year. These tools combine those calls so questions like
+ * "who was absent in 3B last week" take a single tool call, and do the
+ * counting server-side instead of leaving arithmetic over raw JSON to the
+ * model.
+ */
+
+const ATTENDANCE_CONCURRENCY = Number(process.env.ATTENDANCE_CONCURRENCY) || 4;
+const MAX_RANGE_DAYS = 92;
+/** Flemish "problematic absence" limit on unexplained half-days */
+const UNEXPLAINED_THRESHOLD =
+  Number(process.env.ATTENDANCE_UNEXPLAINED_THRESHOLD) || 30;
+const LATE_THRESHOLD = Number(process.env.ATTENDANCE_LATE_THRESHOLD) || 10;
+
+const PRESENT = "|";
+const LATE = "L";
+const UNEXPLAINED = "-";
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface HalfDayCodes {
+  am: string | null;
+  pm: string | null;
+}
+
+function errorResult(text: string) {
+  return {
+    content: [{ type: "text" as const, text }],
+    isError: true,
+  };
+}
+
+function parseIsoDate(value: string): Date | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return undefined;
+  // Impossible days such as 2024-02-30 would roll over into March
+  return date.toISOString().startsWith(value) ? date : undefined;
+}
+
+/**
+ * Weekdays (Monday-Friday) between two dates, inclusive, as YYYY-MM-DD
+ */
+function schoolDays(from: Date, to: Date): string[] {
+  const days: string[] = [];
+  for (
+    const day = new Date(from);
+    day <= to;
+    day.setUTCDate(day.getUTCDate() + 1)
+  ) {
+    const weekday = day.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      days.push(day.toISOString().slice(0, 10));
+    }
+  }
+  return days;
+}
+
+function normalizeCode(value: unknown): string | null {
+  return value === undefined || value === null || value === ""
+    ? null
+    : String(value);
+}
+
+/**
+ * Read an absence response into key → half-day codes. Per-date methods are
+ * keyed by student ({"jan.peeters": {"am": "|", "pm": "Z"}}) or, for some
+ * schools, a list of records carrying the username; getAbsents is keyed by
+ * date ({"2024-09-02": {"am": "|", "pm": "Z"}}).
+ */
+function parseHalfDayCodes(result: unknown): Map<string, HalfDayCodes> {
+  let data = result;
+  if (typeof data === "string") {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return new Map();
+    }
+  }
+
+  const rows: [string, any][] = Array.isArray(data)
+    ? data.map((record) => [
+        String(
+          record?.gebruikersnaam ??
+            record?.username ??
+            record?.userIdentifier ??
+            "",
+        ),
+        record,
+      ])
+    : data && typeof data === "object"
+      ? Object.entries(data)
+      : [];
+
+  const absences = new Map<string, HalfDayCodes>();
+  for (const [student, codes] of rows) {
+    if (!student || !codes || typeof codes !== "object") continue;
+    absences.set(student, {
+      am: normalizeCode(codes.am),
+      pm: normalizeCode(codes.pm),
+    });
+  }
+  return absences;
+}
+
+function describeCode(code: string | null): string {
+  return SMARTSCHOOL_CONVENTIONS.absenceCodes[code ?? "null"] ?? "Unknown code";
+}
+
+interface StudentStats {
+  student: string;
+  /** School half-days with a code, present or not */
+  halfDays: number;
+  /** Absent half-days: any code other than present and late */
+  absentHalfDays: number;
+  unexplained: number;
+  late: number;
+  /** Share of school half-days with a late arrival, in percent */
+  latePercentage: number;
+  codes: Record<string, number>;
+  /** Absent half-days per weekday */
+  weekdayPattern: Record<string, number>;
+  longestStreak: { halfDays: number; from: string; to: string } | null;
+  alerts: string[];
+}
+
+interface Thresholds {
+  unexplained: number;
+  late: number;
+}
+
+function isAbsence(code: string | null): code is string {
+  return code !== null && code !== PRESENT && code !== LATE;
+}
+
+/**
+ * Compute statistics for one student from a getAbsents response. Days
+ * without a code (weekends, holidays) neither count nor break a streak.
+ */
+function computeStudentStats(
+  student: string,
+  absences: Map<string, HalfDayCodes>,
+  range: { from?: string; to?: string },
+  thresholds: Thresholds,
+): StudentStats {
+  const stats: StudentStats = {
+    student,
+    halfDays: 0,
+    absentHalfDays: 0,
+    unexplained: 0,
+    late: 0,
+    latePercentage: 0,
+    codes: {},
+    weekdayPattern: Object.fromEntries(
+      WEEKDAYS.slice(1, 6).map((day) => [day, 0]),
+    ),
+    longestStreak: null,
+    alerts: [],
+  };
+
+  let streak = null as StudentStats["longestStreak"];
+  const dates = [...absences.keys()]
+    .filter(
+      (date) =>
+        parseIsoDate(date) &&
+        (!range.from || date >= range.from) &&
+        (!range.to || date <= range.to),
+    )
+    .sort();
+
+  for (const date of dates) {
+    const { am, pm } = absences.get(date)!;
+    const weekday = WEEKDAYS[parseIsoDate(date)!.getUTCDay()];
+
+    for (const code of [am, pm]) {
+      if (code === null) continue;
+      stats.halfDays++;
+      if (code === PRESENT) {
+        streak = null;
+        continue;
+      }
+
+      stats.codes[code] = (stats.codes[code] ?? 0) + 1;
+      if (code === LATE) {
+        stats.late++;
+        streak = null;
+        continue;
+      }
+
+      stats.absentHalfDays++;
+      if (code === UNEXPLAINED) stats.unexplained++;
+      stats.weekdayPattern[weekday] = (stats.weekdayPattern[weekday] ?? 0) + 1;
+
+      streak = streak
+        ? { ...streak, halfDays: streak.halfDays + 1, to: date }
+        : { halfDays: 1, from: date, to: date };
+      if (
+        !stats.longestStreak ||
+        streak.halfDays > stats.longestStreak.halfDays
+      ) {
+        stats.longestStreak = streak;
+      }
+    }
+  }
+
+  if (stats.halfDays > 0) {
+    stats.latePercentage =
+      Math.round((stats.late / stats.halfDays) * 1000) / 10;
+  }
+  if (stats.unexplained >= thresholds.unexplained) {
+    stats.alerts.push(
+      `${stats.unexplained} unexplained half-days (threshold ${thresholds.unexplained})`,
+    );
+  }
+  if (stats.late >= thresholds.late) {
+    stats.alerts.push(
+      `${stats.late} late arrivals (threshold ${thresholds.late})`,
+    );
+  }
+  return stats;
+}
+
+/**
+ * Absence totals for one student from a getAbsents response
+ */
+export function summarizeAbsences(result: unknown) {
+  const { absentHalfDays, unexplained, late } = computeStudentStats(
+    "",
+    parseHalfDayCodes(result),
+    {},
+    { unexplained: Infinity, late: Infinity },
+  );
+  return { absentHalfDays, unexplained, late };
+}
+
+function sumCodes(rows: StudentStats[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const row of rows) {
+    for (const [code, count] of Object.entries(row.codes)) {
+      totals[code] = (totals[code] ?? 0) + count;
+    }
+  }
+  return totals;
+}
+
+function legendFor(codes: Record<string, number>): Record<string, string> {
+  return Object.fromEntries(
+    Object.keys(codes).map((code) => [code, describeCode(code)]),
+  );
+}
+
+/**
+ * Register the composite attendance tools on an MCP server
+ */
+export function registerAttendanceTools(server: McpServer, schools: Schools) {
+  if (schools.isAllowed("getAbsentsByDateAndGroup").allowed) {
+    registerAttendanceRangeTool(server, schools);
+  }
+  if (schools.isAllowed("getAbsents").allowed) {
+    registerAttendanceStatsTool(server, schools);
+  }
+}
+
+function registerAttendanceRangeTool(server: McpServer, schools: Schools) {
+  server.tool(
+    "smartschool-attendanceRange",
+    `
+Attendance of one class over a date range, as a student × half-day matrix
+
+🎯 Use Case: Questions about a period instead of a single day
+📂 Category: Attendance
+💡 Examples: Who was absent in 3B last week?, Show attendance of 5WEWI from 2024-11-04 to 2024-11-15
+
+Calls getAbsentsByDateAndGroup for every weekday in the range (weekends are skipped) and merges the results. Each cell holds the morning (am) and afternoon (pm) code; '|' means present and '-' an unexplained absence; late arrivals ('L') are counted separately from absent half-days. Days that fail are listed separately instead of failing the whole range. Ranges are limited to ${MAX_RANGE_DAYS} days.
+    `.trim(),
+    { ...AttendanceRangeSchema.shape, ...schools.param },
+    async ({
+      school: schoolName,
+      classCode,
+      from,
+      to,
+      onlyAbsences = true,
+    }) => {
+      const school = schools.resolve(schoolName);
+      if ("error" in school) return errorResult(school.error);
+      const { call, authorize } = school;
+
+      const fromDate = parseIsoDate(from);
+      const toDate = parseIsoDate(to);
+      if (!fromDate || !toDate) {
+        return errorResult(
+          "❌ 'from' and 'to' must be existing dates in YYYY-MM-DD format.",
+        );
+      }
+      if (fromDate > toDate) {
+        return errorResult("❌ 'from' must not be after 'to'.");
+      }
+      if (
+        (toDate.getTime() - fromDate.getTime()) / 86400000 >=
+        MAX_RANGE_DAYS
+      ) {
+        return errorResult(
+          `❌ The range spans more than ${MAX_RANGE_DAYS} days. Split it into smaller ranges.`,
+        );
+      }
+
+      const days = schoolDays(fromDate, toDate);
+      for (const date of days) {
+        const check = authorize("getAbsentsByDateAndGroup", {
+          date,
+          code: classCode,
+        });
+        if (!check.allowed) {
+          return errorResult(check.reason ?? "🚫 Blocked by policy.");
+        }
+      }
+
+      const results = await mapWithConcurrency(
+        days,
+        ATTENDANCE_CONCURRENCY,
+        (date) => call("getAbsentsByDateAndGroup", { date, code: classCode }),
+      );
+
+      const matrix: Record<string, Record<string, HalfDayCodes>> = {};
+      const failedDays: { date: string; error: string }[] = [];
+      results.forEach((result, index) => {
+        const date = days[index];
+        if (result.status === "rejected") {
+          failedDays.push({
+            date,
+            error: result.reason?.message ?? String(result.reason),
+          });
+          return;
+        }
+        for (const [student, codes] of parseHalfDayCodes(result.value)) {
+          (matrix[student] ??= {})[date] = codes;
+        }
+      });
+
+      const legend: Record<string, string> = {};
+      const summary = Object.entries(matrix)
+        .map(([student, byDate]) => {
+          const codes: Record<string, number> = {};
+          for (const { am, pm } of Object.values(byDate)) {
+            for (const code of [am, pm]) {
+              if (code === PRESENT || code === null) continue;
+              codes[code] = (codes[code] ?? 0) + 1;
+              legend[code] = describeCode(code);
+            }
+          }
+          // Late arrivals are not absences, as in computeStudentStats
+          const late = codes[LATE] ?? 0;
+          const absentHalfDays =
+            Object.values(codes).reduce((sum, count) => sum + count, 0) - late;
+          return { student, absentHalfDays, late, codes };
+        })
+        .filter((row) => !onlyAbsences || row.absentHalfDays > 0)
+        .sort((a, b) => b.absentHalfDays - a.absentHalfDays);
+
+      const students = Object.fromEntries(
+        summary.map(({ student }) => [student, matrix[student]]),
+      );
+
+      const report = {
+        classCode,
+        from,
+        to,
+        days,
+        summary,
+        matrix: students,
+        legend,
+        ...(failedDays.length > 0 ? { failedDays } : {}),
+      };
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `📅 Attendance for ${classCode} from ${from} to ${to} (${days.length} school days, ${summary.length} student(s)${onlyAbsences ? " with absences" : ""}${failedDays.length > 0 ? `, ⚠️ ${failedDays.length} day(s) failed` : ""}):\n${JSON.stringify(redactOutput(report), null, 2)}`,
+          },
+        ],
+      };
+    },
+  );
+}
+
+function registerAttendanceStatsTool(server: McpServer, schools: Schools) {
+  server.tool(
+    "smartschool-attendanceStats",
+    `
+Attendance statistics for a student or a whole class over a school year
+
+🎯 Use Case: Spot attendance problems without counting raw absence records
+📂 Category: Attendance
+💡 Examples: How many unexplained half-days does jan.peeters have?, Which students in 4B are late most often?, Who in 3A is close to the problematic absence limit?
+
+Calls getAbsents per student and computes: counts per absence code, unexplained ('-') half-days, late ('L') count and percentage of half-days, absent half-days per weekday, and the longest run of consecutive absent half-days (days without school are skipped). Students reaching the unexplained threshold (default ${UNEXPLAINED_THRESHOLD}, the Flemish "problematic absence" limit) or the late threshold (default ${LATE_THRESHOLD}) are flagged. Late arrivals are not counted as absences.
+    `.trim(),
+    { ...AttendanceStatsSchema.shape, ...schools.param },
+    async ({
+      school: schoolName,
+      userIdentifier,
+      classCode,
+      schoolYear,
+      from,
+      to,
+      unexplainedThreshold,
+      lateThreshold,
+    }) => {
+      const school = schools.resolve(schoolName);
+      if ("error" in school) return errorResult(school.error);
+      const { call, authorize } = school;
+
+      if (!userIdentifier === !classCode) {
+        return errorResult(
+          "❌ Give either userIdentifier (one student) or classCode (a whole class).",
+        );
+      }
+      for (const date of [from, to]) {
+        if (date && !parseIsoDate(date)) {
+          return errorResult(
+            "❌ 'from' and 'to' must be existing dates in YYYY-MM-DD format.",
+          );
+        }
+      }
+      const thresholds: Thresholds = {
+        unexplained: unexplainedThreshold ?? UNEXPLAINED_THRESHOLD,
+        late: lateThreshold ?? LATE_THRESHOLD,
+      };
+
+      let students: string[];
+      if (userIdentifier) {
+        students = [userIdentifier];
+      } else {
+        const membersParams = { code: classCode!, recursive: "0" };
+        const check = authorize("getAllAccounts", membersParams);
+        if (!check.allowed) {
+          return errorResult(check.reason ?? "🚫 Blocked by policy.");
+        }
+        try {
+          students = toRecords(await call("getAllAccounts", membersParams))
+            .map((record) => describeAccount(record).username)
+            .filter(Boolean);
+        } catch (error: any) {
+          return errorResult(
+            `❌ Could not list the members of ${classCode}: ${error?.message ?? error}`,
+          );
+        }
+        if (students.length === 0) {
+          return errorResult(`❌ No members found in class ${classCode}.`);
+        }
+      }
+
+      for (const student of students) {
+        const check = authorize("getAbsents", {
+          userIdentifier: student,
+          schoolYear,
+        });
+        if (!check.allowed) {
+          return errorResult(check.reason ?? "🚫 Blocked by policy.");
+        }
+      }
+
+      const results = await mapWithConcurrency(
+        students,
+        ATTENDANCE_CONCURRENCY,
+        async (student) =>
+          computeStudentStats(
+            student,
+            parseHalfDayCodes(
+              await call("getAbsents", { userIdentifier: student, schoolYear }),
+            ),
+            { from, to },
+            thresholds,
+          ),
+      );
+
+      const rows: StudentStats[] = [];
+      const failedStudents: { student: string; error: string }[] = [];
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled") {
+          rows.push(result.value);
+        } else {
+          failedStudents.push({
+            student: students[index],
+            error: result.reason?.message ?? String(result.reason),
+          });
+        }
+      });
+
+      if (userIdentifier && rows.length === 0) {
+        return errorResult(
+          `❌ Could not get absences for ${userIdentifier}: ${failedStudents[0]?.error}`,
+        );
+      }
+
+      const period = `${SMARTSCHOOL_CONVENTIONS.schoolYearFormat(schoolYear)}${from || to ? ` (${from ?? "start"} to ${to ?? "end"})` : ""}`;
+
+      if (userIdentifier) {
+        const [stats] = rows;
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `📊 Attendance statistics for ${userIdentifier}, ${period}${stats.alerts.length > 0 ? `\n⚠️ ${stats.alerts.join("; ")}` : ""}:\n${JSON.stringify(redactOutput({ ...stats, thresholds, legend: legendFor(stats.codes) }), null, 2)}`,
+            },
+          ],
+        };
+      }
+
+      rows.sort(
+        (a, b) =>
+          b.unexplained - a.unexplained || b.absentHalfDays - a.absentHalfDays,
+      );
+      const flagged = rows.filter((row) => row.alerts.length > 0);
+      const codes = sumCodes(rows);
+      const report = {
+        classCode,
+        schoolYear,
+        from,
+        to,
+        thresholds,
+        class: {
+          students: rows.length,
+          absentHalfDays: rows.reduce(
+            (sum, row) => sum + row.absentHalfDays,
+            0,
+          ),
+          unexplained: rows.reduce((sum, row) => sum + row.unexplained, 0),
+          late: rows.reduce((sum, row) => sum + row.late, 0),
+          codes,
+        },
+        flagged: flagged.map(({ student, alerts }) => ({ student, alerts })),
+        students: rows,
+        legend: legendFor(codes),
+        ...(failedStudents.length > 0 ? { failedStudents } : {}),
+      };
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `📊 Attendance statistics for ${classCode}, ${period}: ${rows.length} student(s), ${flagged.length} flagged${failedStudents.length > 0 ? `, ⚠️ ${failedStudents.length} failed` : ""}:\n${JSON.stringify(redactOutput(report), null, 2)}`,
+          },
+        ],
+      };
+    },
+  );
+}
@@ -0,0 +1,212 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir, userInfo } from "node:os";
+import { dirname, join } from "node:path";
+import type { ClientCall } from "./client.js";
+import { logger, sanitize } from "./logger.js";
+import { getSafetyLevel, SAFETY_LEVELS } from "./safety.js";
+
+/**
+ * @file Append-only audit trail for Smartschool tool invocations
+ *
+ * Every call to a method that can modify Smartschool data is written as one
+ * JSON line to the audit log, so the trail survives MCP client restarts and
+ * can be queried afterwards (who changed what, and when). DESTRUCTIVE and
+ * CRITICAL calls are refused when the log cannot be written.
+ *
+ * Over HTTP, users only see their own entries; the users in AUDIT_ADMINS
+ * see all of them.
+ */
+
+export const AUDIT_LOG_FILE =
+  process.env.AUDIT_LOG_FILE ||
+  join(homedir(), ".smartschool-mcp", "audit.jsonl");
+
+const AUDIT_ACTOR = process.env.AUDIT_ACTOR || safeUsername();
+
+const AUDIT_ADMINS = new Set(
+  (process.env.AUDIT_ADMINS ?? "")
+    .split(",")
+    .map((user) => user.trim())
+    .filter(Boolean),
+);
+
+const MAX_PARAM_LENGTH = 256;
+
+export type AuditOutcome = "success" | "error" | "blocked";
+
+export interface AuditEntry {
+  timestamp: string;
+  actor: string;
+  /** Smartschool platform the call went to */
+  school?: string;
+  method: string;
+  safetyLevel: string;
+  params: Record<string, unknown>;
+  outcome: AuditOutcome;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface AuditQuery {
+  school?: string;
+  method?: string;
+  actor?: string;
+  outcome?: AuditOutcome;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+function safeUsername(): string {
+  try {
+    return userInfo().username;
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * Replace secrets and large blobs in tool parameters before persisting
+ * them, at any depth, as the logger does
+ */
+export function redactParams(
+  params: Record<string, unknown>,
+): Record<string, unknown> {
+  return sanitize(params, MAX_PARAM_LENGTH) as Record<string, unknown>;
+}
+
+/**
+ * Whether a caller may see every audit and undo entry: the local user of a
+ * stdio server, or an HTTP user listed in AUDIT_ADMINS
+ */
+export function isAuditAdmin(clientId: string | undefined): boolean {
+  return clientId === undefined || AUDIT_ADMINS.has(clientId);
+}
+
+/**
+ * Make sure an entry can be written before a DESTRUCTIVE or CRITICAL
+ * method runs, so such changes never go unrecorded
+ */
+export async function assertAuditWritable(method: string): Promise<void> {
+  const level = getSafetyLevel(method);
+  if (level !== SAFETY_LEVELS.DESTRUCTIVE && level !== SAFETY_LEVELS.CRITICAL) {
+    return;
+  }
+  try {
+    await mkdir(dirname(AUDIT_LOG_FILE), { recursive: true });
+    await appendFile(AUDIT_LOG_FILE, "", "utf8");
+  } catch (error: any) {
+    logger.error("💥 Audit log is not writable", {
+      file: AUDIT_LOG_FILE,
+      method,
+      error,
+    });
+    throw new Error(
+      `📜 ${method} was not run: the audit log ${AUDIT_LOG_FILE} cannot be written (${error?.message ?? error}).`,
+    );
+  }
+}
+
+/**
+ * Append a single entry to the audit log. The actor defaults to AUDIT_ACTOR
+ * unless the caller is an authenticated HTTP user.
+ */
+export async function recordAuditEntry(
+  entry: Omit<AuditEntry, "timestamp" | "actor"> & { actor?: string },
+): Promise<void> {
+  const line: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    ...entry,
+    actor: entry.actor || AUDIT_ACTOR,
+    params: redactParams(entry.params),
+  };
+
+  try {
+    await mkdir(dirname(AUDIT_LOG_FILE), { recursive: true });
+    await appendFile(AUDIT_LOG_FILE, `${JSON.stringify(line)}\n`, "utf8");
+  } catch (error) {
+    logger.error("💥 Failed to write audit entry", {
+      file: AUDIT_LOG_FILE,
+      error,
+    });
+  }
+}
+
+/**
+ * Invoke a method and record its outcome. Used by composite tools that make
+ * several changes on behalf of one tool call.
+ */
+export async function callWithAudit(
+  call: ClientCall,
+  method: string,
+  params: Record<string, unknown>,
+  actor?: string,
+  school?: string,
+): Promise<any> {
+  const startedAt = Date.now();
+  const entry = {
+    actor,
+    school,
+    method,
+    safetyLevel: getSafetyLevel(method),
+    params,
+  };
+  await assertAuditWritable(method);
+  try {
+    const result = await call(method, params);
+    await recordAuditEntry({
+      ...entry,
+      outcome: "success",
+      durationMs: Date.now() - startedAt,
+    });
+    return result;
+  } catch (error: any) {
+    await recordAuditEntry({
+      ...entry,
+      outcome: "error",
+      error: error?.message ?? String(error),
+      durationMs: Date.now() - startedAt,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Read audit entries matching the query, most recent first
+ */
+export async function queryAuditLog(query: AuditQuery): Promise<AuditEntry[]> {
+  let contents: string;
+  try {
+    contents = await readFile(AUDIT_LOG_FILE, "utf8");
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const since = query.since ? Date.parse(query.since) : undefined;
+  const until = query.until ? Date.parse(query.until) : undefined;
+
+  const entries: AuditEntry[] = [];
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue; // Skip partially written lines
+    }
+
+    const time = Date.parse(entry.timestamp);
+    if (query.school && entry.school !== query.school) continue;
+    if (query.method && entry.method !== query.method) continue;
+    if (query.actor && entry.actor !== query.actor) continue;
+    if (query.outcome && entry.outcome !== query.outcome) continue;
+    if (since !== undefined && time < since) continue;
+    if (until !== undefined && time > until) continue;
+
+    entries.push(entry);
+  }
+
+  return entries.reverse().slice(0, query.limit ?? 50);
+}
@@ -0,0 +1,467 @@
+import { readFileSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { logger } from "./logger.js";
+import {
+  describeAccount,
+  parseJsonResult,
+  stableStringify,
+  toRecords,
+} from "./records.js";
+
+/**
+ * @file Read cache for SAFE Smartschool methods
+ *
+ * Results are kept per method + parameters for a per-method TTL. When a
+ * mutation succeeds, the entries it may have made stale are dropped (see
+ * MUTATION_INVALIDATIONS); mutations without a rule clear the whole cache.
+ * With CACHE_FILE set, the cache survives restarts, but only for methods
+ * without personal data (PERSISTED_METHODS): accounts, memberships and
+ * teachers are kept in memory only.
+ */
+
+function readSeconds(value: string | undefined, fallback: number): number {
+  const seconds = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(seconds)
+    ? seconds
+    : fallback;
+}
+
+export const CACHE_ENABLED = process.env.CACHE_ENABLED !== "false";
+export const CACHE_FILE = process.env.CACHE_FILE;
+const CACHE_DEFAULT_TTL_SECONDS = readSeconds(
+  process.env.CACHE_DEFAULT_TTL_SECONDS,
+  60,
+);
+const CACHE_MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES) || 1000;
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * Default TTL in seconds per method; 0 disables caching for that method.
+ * Methods not listed use CACHE_DEFAULT_TTL_SECONDS. Override with CACHE_TTLS,
+ * a JSON object such as '{"getAllAccountsExtended": 1800}'.
+ */
+const DEFAULT_METHOD_TTLS: Record<string, number> = {
+  // Reference data: changes a few times per school year
+  getHelpdeskMiniDbItems: 86400,
+  returnJsonErrorCodes: 86400,
+  returnCsvErrorCodes: 86400,
+  getReferenceField: 86400,
+
+  // Class structure and courses
+  getAllGroupsAndClasses: 3600,
+  getClassList: 3600,
+  getClassListJson: 3600,
+  getClassTeachers: 3600,
+  getSchoolyearDataOfClass: 3600,
+  getCourses: 3600,
+  getSkoreClassTeacherCourseRelation: 3600,
+
+  // Accounts and memberships
+  getAllAccounts: 600,
+  getAllAccountsExtended: 600,
+  getUserDetails: 300,
+  getUserDetailsByUsername: 300,
+  getUserDetailsByNumber: 300,
+  getUserDetailsByScannableCode: 300,
+  getUserOfficialClass: 300,
+  getStudentCareer: 300,
+
+  // Polled or large: never cached
+  checkStatus: 0,
+  getAccountPhoto: 0,
+};
+
+function loadMethodTtls(): Record<string, number> {
+  if (!process.env.CACHE_TTLS) return DEFAULT_METHOD_TTLS;
+  try {
+    return { ...DEFAULT_METHOD_TTLS, ...JSON.parse(process.env.CACHE_TTLS) };
+  } catch (error) {
+    logger.warn("⚠️ Ignoring invalid CACHE_TTLS (expected JSON)", { error });
+    return DEFAULT_METHOD_TTLS;
+  }
+}
+
+const METHOD_TTLS = loadMethodTtls();
+
+/**
+ * Cached methods whose entries a mutation makes stale. Without `match` every
+ * entry of the method is dropped; with `match` only entries whose params
+ * have those values (case-insensitive).
+ */
+interface CacheSelector {
+  method: string;
+  match?: Record<string, string>;
+}
+
+const USER_METHODS = [
+  "getUserDetails",
+  "getUserDetailsByUsername",
+  "getUserDetailsByNumber",
+  "getUserDetailsByScannableCode",
+  "getUserOfficialClass",
+  "getStudentCareer",
+  "getAccountPhoto",
+];
+const ACCOUNT_LIST_METHODS = ["getAllAccounts", "getAllAccountsExtended"];
+const CLASS_STRUCTURE_METHODS = [
+  "getAllGroupsAndClasses",
+  "getClassList",
+  "getClassListJson",
+  "getClassTeachers",
+  "getSchoolyearDataOfClass",
+];
+const COURSE_METHODS = ["getCourses", "getSkoreClassTeacherCourseRelation"];
+
+/** Reference data and class structure: the only entries written to disk */
+const PERSISTED_METHODS = new Set([
+  "getHelpdeskMiniDbItems",
+  "returnJsonErrorCodes",
+  "returnCsvErrorCodes",
+  "getReferenceField",
+  "getAllGroupsAndClasses",
+  "getClassList",
+  "getClassListJson",
+  "getSchoolyearDataOfClass",
+]);
+
+/** Params that hold a username or internal number */
+const USER_PARAMS = ["userIdentifier", "username"];
+
+function all(methods: string[]): CacheSelector[] {
+  return methods.map((method) => ({ method }));
+}
+
+/**
+ * Entries about one user. Lookups by number or scannable code cannot be
+ * matched to a username, so those are always dropped.
+ */
+function userEntries(userIdentifier: unknown): CacheSelector[] {
+  if (typeof userIdentifier !== "string" || !userIdentifier) {
+    return all(USER_METHODS);
+  }
+  const byIdentifier = { userIdentifier };
+  return [
+    { method: "getUserDetails", match: byIdentifier },
+    { method: "getUserDetailsByUsername", match: { username: userIdentifier } },
+    { method: "getUserDetailsByNumber" },
+    { method: "getUserDetailsByScannableCode" },
+    { method: "getUserOfficialClass", match: byIdentifier },
+    { method: "getStudentCareer", match: byIdentifier },
+    { method: "getAccountPhoto", match: byIdentifier },
+  ];
+}
+
+/**
+ * Member lists of the given classes/groups, plus every recursive list since
+ * a parent group includes its subgroups' members
+ */
+function memberLists(codes: unknown[]): CacheSelector[] {
+  return ACCOUNT_LIST_METHODS.flatMap((method) => [
+    { method, match: { recursive: "1" } },
+    ...codes
+      .filter((code): code is string => typeof code === "string" && !!code)
+      .map((code) => ({ method, match: { code } })),
+  ]);
+}
+
+function csvCodes(value: unknown): string[] {
+  return typeof value === "string"
+    ? value
+        .split(",")
+        .map((code) => code.trim())
+        .filter(Boolean)
+    : [];
+}
+
+type InvalidationRule = (params: Record<string, any>) => CacheSelector[];
+
+const MUTATION_INVALIDATIONS: Record<string, InvalidationRule> = {
+  // Account lifecycle: also changes who appears in member lists
+  saveUser: (p) => [...userEntries(p.username), ...all(ACCOUNT_LIST_METHODS)],
+  delUser: (p) => [
+    ...userEntries(p.userIdentifier),
+    ...all(ACCOUNT_LIST_METHODS),
+  ],
+  unregisterStudent: (p) => [
+    ...userEntries(p.userIdentifier),
+    ...all(ACCOUNT_LIST_METHODS),
+  ],
+  setAccountStatus: (p) => [
+    ...userEntries(p.userIdentifier),
+    ...all(ACCOUNT_LIST_METHODS),
+  ],
+
+  // Identifier changes: old cache keys cannot be traced to the user
+  changeUsername: () => [...all(USER_METHODS), ...all(ACCOUNT_LIST_METHODS)],
+  changeInternNumber: () => [
+    ...all(USER_METHODS),
+    ...all(ACCOUNT_LIST_METHODS),
+  ],
+  replaceInum: () => [...all(USER_METHODS), ...all(ACCOUNT_LIST_METHODS)],
+
+  // Account details
+  savePassword: (p) => userEntries(p.userIdentifier),
+  changePasswordAtNextLogin: (p) => userEntries(p.userIdentifier),
+  forcePasswordReset: (p) => userEntries(p.userIdentifier),
+  saveUserParameter: (p) => userEntries(p.userIdentifier),
+  removeCoAccount: (p) => userEntries(p.userIdentifier),
+  setAccountPhoto: (p) => userEntries(p.userIdentifier),
+  saveSignature: (p) => userEntries(p.userIdentifier),
+  deactivateTwoFactorAuthentication: (p) => userEntries(p.userIdentifier),
+
+  // Memberships; a move to another official class also leaves the old one
+  saveUserToClass: (p) => [
+    ...userEntries(p.userIdentifier),
+    ...all(ACCOUNT_LIST_METHODS),
+  ],
+  removeUserFromGroup: (p) => [
+    ...userEntries(p.userIdentifier),
+    ...memberLists([p.class]),
+  ],
+  saveUserToClasses: (p) => [
+    ...userEntries(p.userIdentifier),
+    ...all(ACCOUNT_LIST_METHODS),
+  ],
+  saveUserToClassesAndGroups: (p) => [
+    ...userEntries(p.userIdentifier),
+    // keepOld 0 removes memberships we cannot name
+    ...(Number(p.keepOld) === 0
+      ? all(ACCOUNT_LIST_METHODS)
+      : memberLists(csvCodes(p.csvList))),
+  ],
+  clearGroup: (p) => [...all(USER_METHODS), ...memberLists([p.group])],
+
+  // Class structure
+  saveClass: () => all(CLASS_STRUCTURE_METHODS),
+  saveGroup: () => all(CLASS_STRUCTURE_METHODS),
+  delClass: (p) => [
+    ...all(CLASS_STRUCTURE_METHODS),
+    ...all(USER_METHODS),
+    ...memberLists([p.code]),
+  ],
+  saveClassList: () => all(CLASS_STRUCTURE_METHODS),
+  saveClassListJson: () => all(CLASS_STRUCTURE_METHODS),
+  changeGroupOwners: () => [{ method: "getClassTeachers" }],
+  saveSchoolyearDataOfClass: (p) => [
+    {
+      method: "getSchoolyearDataOfClass",
+      match: { classCode: String(p.classCode ?? "") },
+    },
+  ],
+
+  // Courses
+  addCourse: () => all(COURSE_METHODS),
+  addCourseStudents: () => all(COURSE_METHODS),
+  addCourseTeacher: () => all(COURSE_METHODS),
+
+  // No cached data affected
+  sendMsg: () => [],
+  addHelpdeskTicket: () => [],
+};
+
+interface CacheEntry {
+  method: string;
+  params: Record<string, unknown>;
+  value: unknown;
+  expiresAt: number;
+}
+
+export interface ReadCache {
+  /** Cached result, or undefined on a miss or expired entry */
+  get(
+    method: string,
+    params: Record<string, unknown>,
+  ): { value: unknown } | undefined;
+  /** Store a result; ignored for methods with a TTL of 0 */
+  set(method: string, params: Record<string, unknown>, value: unknown): void;
+  /** Drop the entries a successful mutation made stale; returns the count */
+  invalidateAfter(mutation: string, params: Record<string, unknown>): number;
+  clear(): void;
+  /** Write pending changes to CACHE_FILE, if configured */
+  flush(): Promise<void>;
+}
+
+function ttlFor(method: string): number {
+  return METHOD_TTLS[method] ?? CACHE_DEFAULT_TTL_SECONDS;
+}
+
+function cacheKey(method: string, params: Record<string, unknown>): string {
+  return `${method}:${stableStringify(params)}`;
+}
+
+function selectorMatches(selector: CacheSelector, entry: CacheEntry): boolean {
+  if (selector.method !== entry.method) return false;
+  return Object.entries(selector.match ?? {}).every(
+    ([param, value]) =>
+      String(entry.params[param] ?? "").toLowerCase() === value.toLowerCase(),
+  );
+}
+
+/**
+ * Map every username and internal number in cached account records to all
+ * identifiers of that account
+ */
+function knownAliases(entries: Iterable<CacheEntry>): Map<string, string[]> {
+  const aliases = new Map<string, string[]>();
+  for (const entry of entries) {
+    let records: Record<string, any>[] = [];
+    if (ACCOUNT_LIST_METHODS.includes(entry.method)) {
+      records = toRecords(entry.value);
+    } else if (entry.method.startsWith("getUserDetails")) {
+      const record = parseJsonResult(entry.value);
+      if (record && typeof record === "object") records = [record];
+    }
+    for (const record of records) {
+      const { username, internalNumber } = describeAccount(record);
+      const identifiers = [username, internalNumber].filter(Boolean);
+      for (const identifier of identifiers) {
+        aliases.set(identifier.toLowerCase(), identifiers);
+      }
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Widen a selector on a user identifier to every identifier of that user. A
+ * mutation by internal number must also drop entries cached by username; if
+ * the cache cannot link the two, all entries of the method are dropped.
+ */
+function withAliases(
+  selector: CacheSelector,
+  aliases: Map<string, string[]>,
+): CacheSelector[] {
+  const param = USER_PARAMS.find((name) => selector.match?.[name]);
+  if (!param) return [selector];
+  const identifiers = aliases.get(selector.match![param].toLowerCase()) ?? [];
+  if (identifiers.length < 2) return [{ method: selector.method }];
+  return identifiers.map((identifier) => ({
+    method: selector.method,
+    match: { ...selector.match, [param]: identifier },
+  }));
+}
+
+function loadEntries(file: string): Map<string, CacheEntry> {
+  const entries = new Map<string, CacheEntry>();
+  let stored: CacheEntry[];
+  try {
+    stored = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") {
+      logger.warn("⚠️ Ignoring unreadable cache file", { file, error });
+    }
+    return entries;
+  }
+
+  const now = Date.now();
+  for (const entry of Array.isArray(stored) ? stored : []) {
+    if (
+      entry?.method &&
+      PERSISTED_METHODS.has(entry.method) &&
+      entry.expiresAt > now
+    ) {
+      entries.set(cacheKey(entry.method, entry.params ?? {}), entry);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Create the read cache, restoring persisted entries from `file` if given
+ */
+export function createReadCache(file: string | undefined = CACHE_FILE) {
+  const entries = file ? loadEntries(file) : new Map<string, CacheEntry>();
+  let persistTimer: NodeJS.Timeout | undefined;
+
+  if (file && entries.size > 0) {
+    logger.info("🗄️ Restored cache entries", { file, entries: entries.size });
+  }
+
+  const persist = async () => {
+    if (!file) return;
+    clearTimeout(persistTimer);
+    persistTimer = undefined;
+    try {
+      await mkdir(dirname(file), { recursive: true });
+      const persisted = [...entries.values()].filter((entry) =>
+        PERSISTED_METHODS.has(entry.method),
+      );
+      await writeFile(file, JSON.stringify(persisted), "utf8");
+    } catch (error) {
+      logger.error("💥 Failed to write cache file", { file, error });
+    }
+  };
+
+  const schedulePersist = () => {
+    if (!file || persistTimer) return;
+    persistTimer = setTimeout(persist, PERSIST_DELAY_MS);
+    persistTimer.unref();
+  };
+
+  const cache: ReadCache = {
+    get(method, params) {
+      const key = cacheKey(method, params);
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return { value: entry.value };
+    },
+
+    set(method, params, value) {
+      const ttl = ttlFor(method);
+      if (ttl <= 0) return;
+
+      const key = cacheKey(method, params);
+      entries.delete(key);
+      entries.set(key, {
+        method,
+        params,
+        value,
+        expiresAt: Date.now() + ttl * 1000,
+      });
+
+      // Maps iterate in insertion order: the first key is the oldest
+      while (entries.size > CACHE_MAX_ENTRIES) {
+        entries.delete(entries.keys().next().value!);
+      }
+      schedulePersist();
+    },
+
+    invalidateAfter(mutation, params) {
+      const rule = MUTATION_INVALIDATIONS[mutation];
+      if (!rule) {
+        // Unknown side effects: drop everything rather than serve stale data
+        const count = entries.size;
+        cache.clear();
+        return count;
+      }
+
+      const aliases = knownAliases(entries.values());
+      const selectors = rule(params).flatMap((selector) =>
+        withAliases(selector, aliases),
+      );
+      let count = 0;
+      for (const [key, entry] of entries) {
+        if (selectors.some((selector) => selectorMatches(selector, entry))) {
+          entries.delete(key);
+          count++;
+        }
+      }
+      if (count > 0) schedulePersist();
+      return count;
+    },
+
+    clear() {
+      entries.clear();
+      schedulePersist();
+    },
+
+    flush: persist,
+  };
+
+  return cache;
+}
@@ -0,0 +1,71 @@
+import type { SmartschoolClient } from "@abrianto/smartschool-kit";
+import type { ReadCache } from "./cache.js";
+import { createResilientInvoke, isTransientError } from "./resilience.js";
+import { getSafetyLevel, SAFETY_LEVELS } from "./safety.js";
+
+/**
+ * @file Invocation layer around SmartschoolClient
+ *
+ * Tools never call the client directly: they go through a ClientCall so that
+ * every Smartschool request follows the same path, whether it comes from a
+ * dynamic tool or from a composite tool built on top of read methods. Each
+ * request runs with a timeout, retries and a circuit breaker (resilience.ts).
+ */
+
+export type ClientCall = (
+  methodName: string,
+  params: Record<string, unknown>,
+  options?: { fresh?: boolean },
+) => Promise<any>;
+
+export interface ClientCallOptions {
+  /** Serve SAFE methods from this cache and invalidate it after mutations */
+  cache?: ReadCache;
+  /** Called after any non-SAFE method succeeds or may have been applied */
+  onMutation?: (methodName: string, params: Record<string, unknown>) => void;
+  /** Names the client in logs and circuit breaker messages */
+  label?: string;
+}
+
+/**
+ * Create the function used to invoke SmartschoolClient methods by name
+ */
+export function createClientCall(
+  client: SmartschoolClient,
+  { cache, onMutation, label }: ClientCallOptions = {},
+): ClientCall {
+  const invoke = createResilientInvoke(label);
+
+  return async (methodName, params, options) => {
+    const isRead = getSafetyLevel(methodName) === SAFETY_LEVELS.SAFE;
+
+    // Fresh reads skip the cache but still refresh it
+    if (isRead && cache && !options?.fresh) {
+      const cached = cache.get(methodName, params);
+      if (cached) return cached.value;
+    }
+
+    let result: any;
+    try {
+      result = await invoke(methodName, () =>
+        (client as any)[methodName](params),
+      );
+    } catch (error) {
+      // A mutation that timed out or lost its connection may still have
+      // been applied, so cached data about it can no longer be trusted
+      if (!isRead && isTransientError(error)) {
+        cache?.invalidateAfter(methodName, params);
+        onMutation?.(methodName, params);
+      }
+      throw error;
+    }
+
+    if (isRead) {
+      cache?.set(methodName, params, result);
+    } else {
+      cache?.invalidateAfter(methodName, params);
+      onMutation?.(methodName, params);
+    }
+    return result;
+  };
+}
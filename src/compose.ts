@@ -0,0 +1,277 @@
+import { extname } from "node:path";
+import { marked } from "marked";
+import sanitizeHtml from "sanitize-html";
+import { logger } from "./logger.js";
+import type { FileResource } from "./schemas.js";
+import { formatBytes, readUpload } from "./uploads.js";
+
+/**
+ * @file Message bodies and attachments for sendMsg and sendBulkMsg
+ *
+ * A body is HTML, sent as written, or Markdown. Markdown is converted to HTML
+ * and sanitized down to the markup Smartschool messages display: paragraphs,
+ * headings, emphasis, lists, links, quotes, code and tables. Scripts, styles,
+ * images, event handlers and links other than http(s) and mailto are dropped.
+ *
+ * Attachments are read from local paths or MCP resources (see uploads.ts).
+ * Each must have an allowed extension and content that matches it, and is
+ * sent as a Smartschool {filename, filedata} object.
+ */
+
+const ATTACHMENT_MAX_BYTES =
+  Number(process.env.ATTACHMENT_MAX_BYTES) || 10 * 1024 * 1024;
+const ATTACHMENT_MAX_TOTAL_BYTES =
+  Number(process.env.ATTACHMENT_MAX_TOTAL_BYTES) || 20 * 1024 * 1024;
+
+export type BodyFormat = "html" | "markdown";
+
+export interface Attachment {
+  filename: string;
+  /** Base64 encoded contents */
+  filedata: string;
+}
+
+/** What a preview shows of an attachment */
+export interface AttachmentInfo {
+  name: string;
+  mimeType: string;
+  bytes: number;
+}
+
+interface AttachmentType {
+  mimeType: string;
+  /** Whether the contents look like this type */
+  matches: (data: Buffer) => boolean;
+}
+
+const startsWith =
+  (...signature: (number | string)[]) =>
+  (data: Buffer) =>
+    data
+      .subarray(0, signature.length)
+      .equals(
+        Buffer.from(
+          signature.map((byte) =>
+            typeof byte === "string" ? byte.charCodeAt(0) : byte,
+          ),
+        ),
+      );
+
+const isZip = startsWith("P", "K", 0x03, 0x04);
+const isOle = startsWith(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1);
+const isText = (data: Buffer) => !data.includes(0);
+
+/** Attachment types by extension; ATTACHMENT_TYPES can narrow them down */
+const KNOWN_ATTACHMENT_TYPES: Record<string, AttachmentType> = {
+  pdf: { mimeType: "application/pdf", matches: startsWith(..."%PDF-") },
+  doc: { mimeType: "application/msword", matches: isOle },
+  docx: {
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    matches: isZip,
+  },
+  xls: { mimeType: "application/vnd.ms-excel", matches: isOle },
+  xlsx: {
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    matches: isZip,
+  },
+  ppt: { mimeType: "application/vnd.ms-powerpoint", matches: isOle },
+  pptx: {
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    matches: isZip,
+  },
+  odt: { mimeType: "application/vnd.oasis.opendocument.text", matches: isZip },
+  ods: {
+    mimeType: "application/vnd.oasis.opendocument.spreadsheet",
+    matches: isZip,
+  },
+  odp: {
+    mimeType: "application/vnd.oasis.opendocument.presentation",
+    matches: isZip,
+  },
+  rtf: { mimeType: "application/rtf", matches: startsWith(..."{\\rtf") },
+  txt: { mimeType: "text/plain", matches: isText },
+  csv: { mimeType: "text/csv", matches: isText },
+  jpg: { mimeType: "image/jpeg", matches: startsWith(0xff, 0xd8, 0xff) },
+  jpeg: { mimeType: "image/jpeg", matches: startsWith(0xff, 0xd8, 0xff) },
+  png: { mimeType: "image/png", matches: startsWith(0x89, ..."PNG") },
+  gif: { mimeType: "image/gif", matches: startsWith(..."GIF8") },
+  zip: { mimeType: "application/zip", matches: isZip },
+};
+
+function loadAttachmentTypes(): Record<string, AttachmentType> {
+  if (!process.env.ATTACHMENT_TYPES) return KNOWN_ATTACHMENT_TYPES;
+  const types: Record<string, AttachmentType> = {};
+  for (const entry of process.env.ATTACHMENT_TYPES.split(",")) {
+    const extension = entry.trim().toLowerCase().replace(/^\./, "");
+    if (!extension) continue;
+    if (KNOWN_ATTACHMENT_TYPES[extension]) {
+      types[extension] = KNOWN_ATTACHMENT_TYPES[extension];
+    } else {
+      logger.warn("⚠️ Ignoring unknown type in ATTACHMENT_TYPES", {
+        extension,
+        known: Object.keys(KNOWN_ATTACHMENT_TYPES),
+      });
+    }
+  }
+  return types;
+}
+
+const ATTACHMENT_TYPES = loadAttachmentTypes();
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    "p",
+    "br",
+    "hr",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "strong",
+    "b",
+    "em",
+    "i",
+    "u",
+    "s",
+    "del",
+    "ul",
+    "ol",
+    "li",
+    "a",
+    "blockquote",
+    "code",
+    "pre",
+    "table",
+    "thead",
+    "tbody",
+    "tr",
+    "th",
+    "td",
+  ],
+  allowedAttributes: { a: ["href", "title", "target", "rel"], ol: ["start"] },
+  allowedSchemes: ["http", "https", "mailto"],
+  // Links open outside the Smartschool message window
+  transformTags: {
+    a: sanitizeHtml.simpleTransform("a", {
+      target: "_blank",
+      rel: "noopener noreferrer",
+    }),
+  },
+};
+
+/**
+ * The HTML body sent to Smartschool
+ */
+export function renderBody(body: string, format: BodyFormat = "html"): string {
+  if (format === "html") return body;
+  const html = marked.parse(body, { async: false, gfm: true, breaks: true });
+  return sanitizeHtml(html, SANITIZE_OPTIONS).trim();
+}
+
+/**
+ * Read and check attachments given by path or MCP resource
+ */
+export async function readAttachments({
+  paths = [],
+  resources = [],
+}: {
+  paths?: string[];
+  resources?: FileResource[];
+}): Promise<{ files: Attachment[]; info: AttachmentInfo[] }> {
+  const uploads = [];
+  for (const path of paths) {
+    uploads.push(await readUpload({ path }, ATTACHMENT_MAX_BYTES));
+  }
+  for (const resource of resources) {
+    uploads.push(await readUpload({ resource }, ATTACHMENT_MAX_BYTES));
+  }
+
+  const files: Attachment[] = [];
+  const info: AttachmentInfo[] = [];
+  let total = 0;
+  for (const upload of uploads) {
+    const extension = extname(upload.name).slice(1).toLowerCase();
+    const type = ATTACHMENT_TYPES[extension];
+    if (!type) {
+      throw new Error(
+        `📎 ${upload.name}: ${extension ? `.${extension} files are` : "files without an extension are"} not accepted as attachments. Allowed: ${Object.keys(ATTACHMENT_TYPES).join(", ")}.`,
+      );
+    }
+    if (upload.data.length === 0) {
+      throw new Error(`📎 ${upload.name} is empty.`);
+    }
+    if (!type.matches(upload.data)) {
+      throw new Error(
+        `📎 ${upload.name} does not contain what its .${extension} extension says.`,
+      );
+    }
+    total += upload.data.length;
+    if (total > ATTACHMENT_MAX_TOTAL_BYTES) {
+      throw new Error(
+        `📦 The attachments together exceed ${formatBytes(ATTACHMENT_MAX_TOTAL_BYTES)}.`,
+      );
+    }
+    files.push({
+      filename: upload.name,
+      filedata: upload.data.toString("base64"),
+    });
+    info.push({
+      name: upload.name,
+      mimeType: type.mimeType,
+      bytes: upload.data.length,
+    });
+  }
+  return { files, info };
+}
+
+/**
+ * One line per attachment, for previews
+ */
+export function describeAttachments(info: AttachmentInfo[]): string {
+  return info
+    .map(
+      (attachment) =>
+        `📎 ${attachment.name} (${attachment.mimeType}, ${formatBytes(attachment.bytes)})`,
+    )
+    .join("\n");
+}
+
+/**
+ * Turn sendMsg tool parameters into the parameters Smartschool expects: an
+ * HTML body and attachments as {filename, filedata}. Base64 'attachments'
+ * are passed on unchanged.
+ */
+export async function prepareMessage(params: Record<string, any>): Promise<{
+  params: Record<string, unknown>;
+  attachments: AttachmentInfo[];
+}> {
+  const {
+    bodyFormat,
+    attachmentPaths,
+    attachmentResources,
+    attachments,
+    ...rest
+  } = params;
+  const body = renderBody(rest.body, bodyFormat);
+
+  if (!attachmentPaths?.length && !attachmentResources?.length) {
+    return {
+      params: { ...rest, body, ...(attachments ? { attachments } : {}) },
+      attachments: [],
+    };
+  }
+  if (attachments?.length) {
+    throw new Error(
+      "📎 Pass attachments either as base64 'attachments' or as attachmentPaths/attachmentResources, not both.",
+    );
+  }
+
+  const { files, info } = await readAttachments({
+    paths: attachmentPaths,
+    resources: attachmentResources,
+  });
+  return { params: { ...rest, body, attachments: files }, attachments: info };
+}
@@ -0,0 +1,98 @@
+import { createHash, randomBytes } from "node:crypto";
+import { stableStringify } from "./records.js";
+
+/**
+ * @file Server-issued, two-phase confirmation tokens
+ *
+ * The first call to a DESTRUCTIVE or CRITICAL tool does not execute: it
+ * returns a summary plus a short-lived token bound to the exact parameters
+ * and to the caller (the HTTP user; none over stdio). Only a second call by
+ * the same caller carrying that token (and the same parameters) runs.
+ * Tokens live in memory, expire, and can be used only once.
+ */
+
+export const CONFIRMATION_TTL_SECONDS =
+  Number(process.env.CONFIRMATION_TTL_SECONDS) || 300;
+
+interface PendingConfirmation {
+  method: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+function fingerprint(
+  method: string,
+  params: Record<string, unknown>,
+  caller: string | undefined,
+): string {
+  return createHash("sha256")
+    .update(`${method}:${caller ?? ""}:${stableStringify(params)}`)
+    .digest("hex");
+}
+
+function purgeExpired(now: number) {
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) pendingConfirmations.delete(token);
+  }
+}
+
+/**
+ * Issue a single-use token bound to a method, its exact parameters and the
+ * caller
+ */
+export function issueConfirmationToken(
+  method: string,
+  params: Record<string, unknown>,
+  caller: string | undefined,
+): { token: string; expiresAt: Date } {
+  const now = Date.now();
+  purgeExpired(now);
+
+  const token = randomBytes(6).toString("hex");
+  const expiresAt = now + CONFIRMATION_TTL_SECONDS * 1000;
+  pendingConfirmations.set(token, {
+    method,
+    fingerprint: fingerprint(method, params, caller),
+    expiresAt,
+  });
+
+  return { token, expiresAt: new Date(expiresAt) };
+}
+
+/**
+ * Validate and consume a confirmation token. A token is invalidated on first
+ * use, even when it does not match, so it cannot be probed repeatedly.
+ */
+export function consumeConfirmationToken(
+  token: string,
+  method: string,
+  params: Record<string, unknown>,
+  caller: string | undefined,
+): { valid: boolean; reason?: string } {
+  const pending = pendingConfirmations.get(token);
+  pendingConfirmations.delete(token);
+
+  if (!pending) {
+    return {
+      valid: false,
+      reason: "Unknown or already used confirmation token.",
+    };
+  }
+  if (pending.expiresAt <= Date.now()) {
+    return { valid: false, reason: "Confirmation token has expired." };
+  }
+  if (
+    pending.method !== method ||
+    pending.fingerprint !== fingerprint(method, params, caller)
+  ) {
+    return {
+      valid: false,
+      reason:
+        "Confirmation token was issued for a different method, different parameters or another user.",
+    };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,220 @@
+import { SMARTSCHOOL_CONVENTIONS } from "./conventions.js";
+
+/**
+ * @file AI-facing context for Smartschool methods
+ */
+
+export interface MethodContext {
+  description: string;
+  useCase: string;
+  category: string;
+  examples: string[];
+  smartschoolContext?: string;
+}
+
+/**
+ * Enhanced context mapping for AI understanding
+ * Maps method names to human-friendly descriptions and use cases
+ */
+export const METHOD_CONTEXT: Record<string, MethodContext> = {
+  // User Management
+  saveUser: {
+    description: "Create or update a user account (student, teacher, staff)",
+    useCase:
+      "When you need to add new students/teachers or update existing user information",
+    category: "User Management",
+    examples: [
+      "Add a new student to the school",
+      "Update a teacher's email address",
+    ],
+    smartschoolContext: `Creates usernames from names automatically (e.g., 'John Doe' becomes 'john.doe'). 
+    
+User roles:
+${Object.entries(SMARTSCHOOL_CONVENTIONS.userRoles)
+  .map(([role, desc]) => `• '${role}': ${desc}`)
+  .join("\n")}
+
+For new users, username is typically generated as 'firstname.lastname' in lowercase.`,
+  },
+  getUserDetails: {
+    description:
+      "Get comprehensive user information including profile, groups, and co-accounts",
+    useCase: "When you need to look up detailed information about a person",
+    category: "User Information",
+    examples: [
+      "Find a student's contact details",
+      "Check which classes a teacher belongs to",
+    ],
+    smartschoolContext:
+      "Returns extensive user data including all co-accounts (parent/guardian accounts). If you only have a name like 'John Doe', look up the exact username with smartschool-findUser first.",
+  },
+  getUserDetailsByUsername: {
+    description: "Look up user details using their username",
+    useCase:
+      "When you only know someone's username but need their full profile",
+    category: "User Information",
+    examples: ["Find user info for 'john.doe'"],
+    smartschoolContext:
+      "Usernames in Smartschool typically follow the pattern 'firstname.lastname' (e.g., 'john.doe' for John Doe).",
+  },
+  getUserDetailsByNumber: {
+    description: "Look up user details using their internal number",
+    useCase: "When you have an internal ID and need user information",
+    category: "User Information",
+    examples: ["Get details for student #12345"],
+  },
+  delUser: {
+    description: "Remove a user from the system permanently",
+    useCase: "When a student graduates or staff member leaves",
+    category: "User Management",
+    examples: ["Remove graduated student", "Delete former teacher account"],
+  },
+
+  // Groups and Classes
+  saveClass: {
+    description: "Create or update a class/group in the school",
+    useCase: "When setting up new academic years or reorganizing classes",
+    category: "Class Management",
+    examples: ["Create new '6A' class", "Update class description"],
+  },
+  saveGroup: {
+    description: "Create or update student/teacher groups",
+    useCase: "For organizing extracurricular activities or special groups",
+    category: "Group Management",
+    examples: ["Create 'Chess Club' group", "Set up 'Math Tutoring' group"],
+  },
+  saveUserToClass: {
+    description: "Assign a student to a specific class",
+    useCase: "When enrolling students or moving them between classes",
+    category: "Class Assignment",
+    examples: ["Move student to class 5B", "Assign new student to 1A"],
+  },
+  getClassTeachers: {
+    description: "Find out which teachers are assigned to which classes",
+    useCase: "To see class-teacher assignments and responsibilities",
+    category: "Class Information",
+    examples: [
+      "Who teaches class 3A?",
+      "Get all class assignments",
+      "List all titular teachers",
+    ],
+    smartschoolContext: `Returns detailed teacher-class assignments with both teacher and class information. Each record shows:
+
+**Teacher Info:**
+- Personal details: name, first name, username
+- System IDs: internal number, staff number (stamboeknummer)
+- Schedule code: koppelingsveldschoolagenda (for timetable integration)
+
+**Class Info:** 
+- Class details: klasnaam (e.g., "1A1", "6WEWE"), klasomschrijving (description)
+- Administrative: klasid (internal class ID), instellingsnummer (institute number)
+- Administrative group: administratievegroep (for official classes)
+
+**Key Fields:**
+- 'isOfficial': true = official/formal class, false = informal group
+- Multiple teachers can be assigned to the same class (co-teaching)
+- Some fields may be null for informal groups (instellingsnummer, administratievegroep)
+
+**Parameter:**
+- getAllOwners: true = get all assigned teachers, false = only primary teacher
+
+**Belgian Context:**
+- "Klas" = Class, "Klasgroep" = Class group
+- Class codes follow Belgian patterns: "1A1" (grade 1, section A, group 1), "7KZ" (7th year specialization)
+- stamboeknummer "NULL" string indicates no staff number assigned`,
+  },
+  delClass: {
+    description: "Remove a class or group from the system",
+    useCase: "When classes are no longer needed or reorganizing",
+    category: "Class Management",
+    examples: ["Delete old graduation class", "Remove unused group"],
+  },
+
+  // Communication
+  sendMsg: {
+    description: "Send messages to users (students, parents, teachers)",
+    useCase: "For school communications and notifications",
+    category: "Communication",
+    examples: [
+      "Send homework reminder",
+      "Notify parents about event",
+      "Message teacher about meeting",
+    ],
+    smartschoolContext: `Can send to main accounts or co-accounts (parent/guardian accounts). 
+    
+Co-account types:
+${Object.entries(SMARTSCHOOL_CONVENTIONS.coAccountTypes)
+  .map(([num, desc]) => `• ${num}: ${desc}`)
+  .join("\n")}
+
+Use coaccount=0 for main account (student/teacher), coaccount=1 for first parent, etc.
+
+Write the body in HTML, or in Markdown with bodyFormat 'markdown' (converted to sanitized HTML). Attach files with attachmentPaths or attachmentResources. Unless confirmation is disabled, the first call only returns the rendered message and a confirmation token; call again with the token after the user approves it.`,
+  },
+
+  // Attendance & Absences
+  getAbsents: {
+    description: "Get student absence records for a school year",
+    useCase: "To track attendance and identify patterns",
+    category: "Attendance",
+    examples: ["Check John's absences this year", "Generate attendance report"],
+    smartschoolContext: `Returns absence data with codes for morning (am) and afternoon (pm). 
+    
+Absence codes mean:
+${Object.entries(SMARTSCHOOL_CONVENTIONS.absenceCodes)
+  .map(([code, desc]) => `• '${code}': ${desc}`)
+  .join("\n")}
+
+Example response: {"2024-09-01": {"am": "|", "pm": "Z"}} means present in morning, sick in afternoon.`,
+  },
+  getAbsentsByDate: {
+    description: "See who was absent on a specific date",
+    useCase: "To check daily attendance or investigate specific days",
+    category: "Attendance",
+    examples: ["Who was absent yesterday?", "Check attendance for Dec 15th"],
+    smartschoolContext: `Shows all students' attendance for one date with absence codes. ${Object.keys(
+      SMARTSCHOOL_CONVENTIONS.absenceCodes,
+    )
+      .slice(0, 5)
+      .map(
+        (code) =>
+          `'${code}' = ${SMARTSCHOOL_CONVENTIONS.absenceCodes[code]?.split(" - ")[0] || "Unknown"}`,
+      )
+      .join(", ")}, etc.`,
+  },
+
+  // Administrative
+  setAccountStatus: {
+    description: "Change user account status (active, inactive, temporary)",
+    useCase: "For managing account access and permissions",
+    category: "Account Management",
+    examples: ["Deactivate former student", "Temporarily disable account"],
+  },
+  savePassword: {
+    description: "Set or change user passwords",
+    useCase: "For password resets and initial account setup",
+    category: "Account Management",
+    examples: ["Reset forgotten password", "Set initial password for new user"],
+  },
+  changeUsername: {
+    description: "Change a user's login username",
+    useCase: "When users need different usernames",
+    category: "Account Management",
+    examples: ["Update username after name change"],
+  },
+
+  // Academic Records
+  getStudentCareer: {
+    description: "Get complete academic history of a student",
+    useCase: "To see student's progression through grades and classes",
+    category: "Academic Records",
+    examples: ["Review student's school history", "Check grade progression"],
+  },
+  getSchoolyearDataOfClass: {
+    description:
+      "Get administrative details for a class in specific school year",
+    useCase: "For academic planning and record keeping",
+    category: "Academic Records",
+    examples: ["Check class details for 2024-2025"],
+  },
+};
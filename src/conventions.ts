@@ -0,0 +1,79 @@
+import { normalizeText } from "./users.js";
+
+/**
+ * @file Smartschool domain knowledge and conventions
+ *
+ * Shared by tool descriptions, result formatting, resources and prompts.
+ */
+
+export const SMARTSCHOOL_CONVENTIONS = {
+  // Username generation from names
+  generateUsername: (firstName: string, lastName: string): string => {
+    // Transliterate accents (Zoë → zoe), then drop spaces and punctuation
+    const part = (name: string) => normalizeText(name).replace(/[^a-z]/g, "");
+    return `${part(firstName)}.${part(lastName)}`;
+  },
+
+  // Absence codes explanation
+  absenceCodes: {
+    "|": "Present - Student was in attendance",
+    L: "Late - Student arrived late to class",
+    Z: "Sick/Illness - Student was absent due to sickness",
+    D: "Doctor - Student had medical appointment",
+    B: "Known - Absence was notified in advance (excused)",
+    R: "Unforeseen - Existential reason (family emergency, etc.)",
+    "-": "Unknown - Unexplained/unexcused absence",
+    G: "Spread - Spread of lesson program",
+    C: "Topsport - Absence due to top sports activities",
+    H: "Revalidation - Absence due to revalidation/therapy",
+    O: "Childcare - Absence due to childcare responsibilities",
+    Q: "Mourning - Absence due to mourning/bereavement",
+    P: "Personal - Personal reasons for absence",
+    W: "Internship work - Absence due to internship work",
+    M: "Absent internship - Absence from internship work",
+    J: "Maternity leave - Absence due to maternity leave",
+    Y: "Suspension - Absence due to suspension",
+    U: "Temporary termination - Temporary termination of student",
+    T: "Termination - Termination of student",
+    null: "No school/Holiday - Non-school day or holiday period",
+  } as Record<string, string>,
+
+  // User roles explanation
+  userRoles: {
+    leerling: "Student - A student enrolled in the school",
+    leerkracht: "Teacher - A teaching staff member",
+    directie: "Management - School management/administrative staff",
+    andere: "Other - Other staff (secretary, janitor, etc.)",
+  },
+
+  // Co-account types
+  coAccountTypes: {
+    0: "Main account",
+    1: "First co-account (often parent/guardian)",
+    2: "Second co-account (often second parent/guardian)",
+    3: "Third co-account",
+    4: "Fourth co-account",
+    5: "Fifth co-account",
+    6: "Sixth co-account",
+  },
+
+  // School year format
+  schoolYearFormat: (year: string): string => {
+    return `School year ${year}-${parseInt(year) + 1}`;
+  },
+
+  // Current school year as starting year (September switches to the new year)
+  currentSchoolYear: (): string => {
+    const now = new Date();
+    const year =
+      now.getMonth() >= 8 ? now.getFullYear() : now.getFullYear() - 1;
+    return String(year);
+  },
+
+  // Common class naming patterns
+  classPatterns: {
+    examples: ["1A", "2B", "3C", "6WEWE", "STEM-GROUP-1"],
+    explanation:
+      "Classes typically follow patterns like [Grade][Section] (1A, 2B) or descriptive codes (STEM-GROUP-1)",
+  },
+};
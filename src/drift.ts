@@ -0,0 +1,63 @@
+/**
+ * @file Drift detection between SmartschoolClient and the local registries
+ *
+ * Tools are discovered from the SmartschoolClient prototype, but their
+ * schemas, safety levels and AI context are maintained by hand. After a
+ * smartschool-kit upgrade these can drift apart; the report makes that
+ * visible at startup.
+ */
+
+export interface DriftReport {
+  missingSchema: string[];
+  missingSafety: string[];
+  missingContext: string[];
+  orphanedSchema: string[];
+  orphanedSafety: string[];
+  orphanedContext: string[];
+}
+
+/**
+ * Compare discovered client methods with the schema, safety and context
+ * registries
+ */
+export function buildDriftReport(
+  methodNames: string[],
+  registries: {
+    schemas: Record<string, unknown>;
+    safety: Record<string, unknown>;
+    context: Record<string, unknown>;
+  },
+): DriftReport {
+  const discovered = new Set(methodNames);
+  const missing = (registry: Record<string, unknown>) =>
+    methodNames.filter((name) => !(name in registry));
+  const orphaned = (registry: Record<string, unknown>) =>
+    Object.keys(registry).filter((name) => !discovered.has(name));
+
+  return {
+    missingSchema: missing(registries.schemas),
+    missingSafety: missing(registries.safety),
+    missingContext: missing(registries.context),
+    orphanedSchema: orphaned(registries.schemas),
+    orphanedSafety: orphaned(registries.safety),
+    orphanedContext: orphaned(registries.context),
+  };
+}
+
+/**
+ * Render the drift report as log lines (empty when nothing drifted)
+ */
+export function formatDriftReport(report: DriftReport): string[] {
+  const sections: [string, string[]][] = [
+    ["Client methods missing from SCHEMA_REGISTRY", report.missingSchema],
+    ["Client methods missing from METHOD_SAFETY", report.missingSafety],
+    ["Client methods missing from METHOD_CONTEXT", report.missingContext],
+    ["SCHEMA_REGISTRY entries without client method", report.orphanedSchema],
+    ["METHOD_SAFETY entries without client method", report.orphanedSafety],
+    ["METHOD_CONTEXT entries without client method", report.orphanedContext],
+  ];
+
+  return sections
+    .filter(([, names]) => names.length > 0)
+    .map(([label, names]) => `${label} (${names.length}): ${names.join(", ")}`);
+}
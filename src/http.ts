@@ -0,0 +1,342 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+/**
+ * @file Streamable HTTP transport with bearer-token authentication
+ *
+ * Lets one central server hold the school's Smartschool access code while
+ * staff members connect with their own bearer token. Every MCP session gets
+ * its own McpServer instance bound to the user that opened it.
+ *
+ * Endpoints:
+ * - POST/GET/DELETE /mcp  MCP streamable HTTP (SSE for server messages)
+ * - GET /healthz          Liveness: the process is up
+ * - GET /readyz           Readiness: accepting new sessions
+ *
+ * Sessions that see no request for MCP_HTTP_SESSION_IDLE_SECONDS are closed,
+ * so abandoned clients do not keep their McpServer alive.
+ */
+
+export const MCP_HTTP_HOST = process.env.MCP_HTTP_HOST || "127.0.0.1";
+export const MCP_HTTP_PORT = Number(process.env.MCP_HTTP_PORT) || 3000;
+const MCP_HTTP_TOKENS = process.env.MCP_HTTP_TOKENS;
+const MCP_HTTP_TOKENS_FILE = process.env.MCP_HTTP_TOKENS_FILE;
+const SHUTDOWN_TIMEOUT_MS =
+  Number(process.env.MCP_HTTP_SHUTDOWN_TIMEOUT_MS) || 10000;
+const SESSION_IDLE_SECONDS =
+  Number(process.env.MCP_HTTP_SESSION_IDLE_SECONDS) || 1800;
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+interface Session {
+  user: string;
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastSeen: number;
+}
+
+export interface HttpServerHandle {
+  close(): Promise<void>;
+}
+
+/**
+ * Load bearer tokens as a map of SHA-256 token digest (hex) → user name.
+ *
+ * Tokens come from MCP_HTTP_TOKENS ('alice:token1,bob:token2') and/or
+ * MCP_HTTP_TOKENS_FILE (JSON object { "alice": "token1" }).
+ */
+export function loadBearerTokens(): Map<string, string> {
+  const entries: [string, string][] = [];
+
+  if (MCP_HTTP_TOKENS) {
+    for (const pair of MCP_HTTP_TOKENS.split(",")) {
+      const separator = pair.indexOf(":");
+      if (separator <= 0) continue;
+      entries.push([
+        pair.slice(0, separator).trim(),
+        pair.slice(separator + 1).trim(),
+      ]);
+    }
+  }
+
+  if (MCP_HTTP_TOKENS_FILE) {
+    const file = JSON.parse(readFileSync(MCP_HTTP_TOKENS_FILE, "utf8"));
+    for (const [user, token] of Object.entries(file)) {
+      entries.push([user, String(token)]);
+    }
+  }
+
+  const tokens = new Map<string, string>();
+  for (const [user, token] of entries) {
+    if (user && token) tokens.set(digest(token).toString("hex"), user);
+  }
+  return tokens;
+}
+
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * Resolve the user for a bearer token using a constant-time comparison
+ */
+function authenticate(
+  req: IncomingMessage,
+  tokens: Map<string, string>,
+): AuthInfo | undefined {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return undefined;
+
+  const token = match[1].trim();
+  const presented = digest(token);
+  for (const [known, user] of tokens) {
+    if (timingSafeEqual(presented, Buffer.from(known, "hex"))) {
+      return { token, clientId: user, scopes: [] };
+    }
+  }
+  return undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+) {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/** An error answered with its own status instead of 500 */
+function requestError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const tooLarge = () =>
+    requestError(
+      413,
+      `Payload too large: the limit is ${MAX_BODY_BYTES} bytes`,
+    );
+  if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) throw tooLarge();
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw tooLarge();
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw requestError(400, "Parse error: the request body is not valid JSON");
+  }
+}
+
+/**
+ * Start the HTTP server. `createMcpServer` is called once per MCP session.
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  tokens: Map<string, string>,
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  let ready = false;
+  let shuttingDown = false;
+
+  const closeSession = async (id: string, session: Session) => {
+    sessions.delete(id);
+    await session.transport.close();
+    await session.server.close();
+  };
+
+  const isIdle = (session: Session) =>
+    Date.now() - session.lastSeen > SESSION_IDLE_SECONDS * 1000;
+
+  const sweepIdleSessions = setInterval(
+    () => {
+      for (const [id, session] of sessions) {
+        if (!isIdle(session)) continue;
+        logger.info("💤 Closing idle session", {
+          session: id,
+          user: session.user,
+        });
+        closeSession(id, session).catch((error) =>
+          logger.warn("⚠️ Failed to close idle session", {
+            session: id,
+            error,
+          }),
+        );
+      }
+    },
+    Math.min(SESSION_IDLE_SECONDS * 1000, 60000),
+  );
+  sweepIdleSessions.unref();
+
+  const handleMcpRequest = async (
+    req: IncomingMessage & { auth?: AuthInfo },
+    res: ServerResponse,
+  ) => {
+    const auth = authenticate(req, tokens);
+    if (!auth) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="smartschool-mcp"');
+      sendJsonRpcError(
+        res,
+        401,
+        "Unauthorized: missing or invalid bearer token",
+      );
+      return;
+    }
+    req.auth = auth;
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      let existing = sessions.get(sessionId);
+      if (existing && isIdle(existing)) {
+        await closeSession(sessionId, existing);
+        existing = undefined;
+      }
+      if (!existing) {
+        // The client must start a new session (streamable HTTP spec)
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      if (existing.user !== auth.clientId) {
+        sendJsonRpcError(res, 403, "Session belongs to a different user");
+        return;
+      }
+      existing.lastSeen = Date.now();
+      const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendJsonRpcError(res, 400, "Bad Request: missing session ID");
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Bad Request: missing session ID");
+      return;
+    }
+    if (shuttingDown) {
+      sendJsonRpcError(res, 503, "Server is shutting down");
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, {
+          user: auth.clientId,
+          transport,
+          server,
+          lastSeen: Date.now(),
+        });
+        logger.info("🔑 Session opened", { session: id, user: auth.clientId });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info("👋 Session closed", { session: transport.sessionId });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (req.method === "GET" && path === "/healthz") {
+      sendJson(res, 200, { status: "ok" });
+      return;
+    }
+    if (req.method === "GET" && path === "/readyz") {
+      const isReady = ready && !shuttingDown;
+      sendJson(res, isReady ? 200 : 503, {
+        status: isReady ? "ready" : "unavailable",
+        sessions: sessions.size,
+      });
+      return;
+    }
+    if (path !== "/mcp") {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((error) => {
+      const status: number = error?.status ?? 500;
+      if (status === 500) {
+        logger.error("💥 Error handling MCP HTTP request", { error });
+      } else {
+        logger.warn("⚠️ Rejected MCP HTTP request", { status, error });
+      }
+      if (!res.headersSent) {
+        if (status === 413) res.setHeader("Connection", "close");
+        sendJsonRpcError(
+          res,
+          status,
+          status === 500 ? "Internal server error" : error.message,
+        );
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(MCP_HTTP_PORT, MCP_HTTP_HOST, () => resolve());
+  });
+  ready = true;
+
+  return {
+    async close() {
+      shuttingDown = true;
+      clearInterval(sweepIdleSessions);
+
+      const closed = new Promise<void>((resolve) =>
+        httpServer.close(() => resolve()),
+      );
+      await Promise.allSettled(
+        [...sessions.values()].map(async (session) => {
+          await session.transport.close();
+          await session.server.close();
+        }),
+      );
+      sessions.clear();
+      httpServer.closeIdleConnections();
+
+      const timeout = new Promise<void>((resolve) =>
+        setTimeout(() => {
+          httpServer.closeAllConnections();
+          resolve();
+        }, SHUTDOWN_TIMEOUT_MS).unref(),
+      );
+      await Promise.race([closed, timeout]);
+    },
+  };
+}
@@ -0,0 +1,605 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { callWithAudit, redactParams } from "./audit.js";
+import {
+  consumeConfirmationToken,
+  issueConfirmationToken,
+} from "./confirmation.js";
+import { SMARTSCHOOL_CONVENTIONS } from "./conventions.js";
+import { describeAccount } from "./records.js";
+import { redactOutput } from "./redaction.js";
+import { ImportUsersSchema, SaveUserSchema } from "./schemas.js";
+import type { School, Schools } from "./schools.js";
+import { readUpload } from "./uploads.js";
+import { normalizeText, USER_INDEX_GROUPS } from "./users.js";
+
+/**
+ * @file CSV bulk user import
+ *
+ * smartschool-importUsers maps CSV columns onto saveUser parameters,
+ * validates every row, generates free usernames and shows the plan (dry run)
+ * before creating anything. Applying the plan runs saveUser and, when a class
+ * is given, saveUserToClass per row and reports the outcome of every row.
+ * Rows whose account already exists for the same person become updates, so a
+ * run can be repeated for its failed rows only. A username only counts as
+ * free when Smartschool says it does not exist: a row whose username cannot
+ * be checked fails instead of being planned as a new account.
+ */
+
+const IMPORT_MAX_BYTES =
+  Number(process.env.IMPORT_MAX_BYTES) || 10 * 1024 * 1024;
+const IMPORT_MAX_ROWS = Number(process.env.IMPORT_MAX_ROWS) || 1000;
+const MAX_USERNAME_SUFFIX = 20;
+
+/** Smartschool error code for an unknown user */
+const USER_NOT_FOUND = "3";
+
+const SaveUserParamsSchema = SaveUserSchema.omit({ confirmationToken: true });
+
+const USER_FIELDS = Object.keys(SaveUserParamsSchema.shape);
+const IMPORT_FIELDS = [...USER_FIELDS, "class", "officialDate"];
+
+/**
+ * Common (Dutch) header names and the field they map to, lowercase without
+ * spaces or punctuation
+ */
+const COLUMN_ALIASES: Record<string, string> = {
+  voornaam: "name",
+  firstname: "name",
+  naam: "surname",
+  familienaam: "surname",
+  achternaam: "surname",
+  lastname: "surname",
+  gebruikersnaam: "username",
+  rol: "basisrol",
+  wachtwoord: "passwd1",
+  internnummer: "internnumber",
+  stamboeknummer: "internnumber",
+  geslacht: "sex",
+  geboortedatum: "birthdate",
+  geboorteplaats: "birthcity",
+  geboorteland: "birthcountry",
+  nationaliteit: "nationality",
+  adres: "address",
+  postcode: "postalcode",
+  gemeente: "city",
+  woonplaats: "city",
+  land: "country",
+  telefoon: "phone",
+  gsm: "mobile",
+  emailadres: "email",
+  klas: "class",
+  klascode: "class",
+  officieledatum: "officialDate",
+};
+
+interface PlannedRow {
+  /** Spreadsheet row number; the header is row 1 */
+  row: number;
+  action?: "create" | "update";
+  user?: Record<string, string>;
+  className?: string;
+  officialDate?: string;
+  errors: string[];
+  warnings: string[];
+}
+
+interface RowResult {
+  row: number;
+  username?: string;
+  action?: "create" | "update";
+  status: "done" | "failed" | "invalid";
+  step?: "saveUser" | "saveUserToClass";
+  error?: string;
+}
+
+function errorResult(text: string) {
+  return {
+    content: [{ type: "text" as const, text }],
+    isError: true,
+  };
+}
+
+/**
+ * Parse CSV text with quoted fields ("a;b", "say ""hi""") into rows
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0] ?? "";
+  return (header.match(/;/g)?.length ?? 0) >= (header.match(/,/g)?.length ?? 0)
+    ? ";"
+    : ",";
+}
+
+/**
+ * Map each CSV header to an import field: explicit mapping first, then field
+ * names and aliases
+ */
+function mapColumns(
+  headers: string[],
+  columns: Record<string, string> = {},
+): { fieldByColumn: (string | undefined)[]; errors: string[] } {
+  const errors: string[] = [];
+  const explicit = new Map<string, string>();
+  for (const [field, header] of Object.entries(columns)) {
+    if (!IMPORT_FIELDS.includes(field)) {
+      errors.push(
+        `Unknown field '${field}' in column mapping. Fields: ${IMPORT_FIELDS.join(", ")}`,
+      );
+    } else if (!headers.some((h) => h.trim() === header.trim())) {
+      errors.push(`Column '${header}' (mapped to ${field}) is not in the CSV`);
+    } else {
+      explicit.set(header.trim(), field);
+    }
+  }
+
+  const mappedFields = new Set(explicit.values());
+  const fieldByColumn = headers.map((header) => {
+    const name = header.trim();
+    if (explicit.has(name)) return explicit.get(name);
+    const key = normalizeText(name).replace(/ /g, "");
+    const field =
+      IMPORT_FIELDS.find((candidate) => candidate.toLowerCase() === key) ??
+      COLUMN_ALIASES[key];
+    if (!field || mappedFields.has(field)) return undefined;
+    mappedFields.add(field);
+    return field;
+  });
+
+  return { fieldByColumn, errors };
+}
+
+/**
+ * Whether a getUserDetailsByUsername result or error means that the user
+ * does not exist. Smartschool answers with an error code, which the client
+ * returns or throws.
+ */
+function isUserNotFound(outcome: any): boolean {
+  if (typeof outcome === "number" || typeof outcome === "string") {
+    return String(outcome).trim() === USER_NOT_FOUND;
+  }
+  return (
+    String(outcome?.code ?? "") === USER_NOT_FOUND ||
+    /user not found|gebruiker (?:werd )?niet gevonden/i.test(
+      String(outcome?.message ?? ""),
+    )
+  );
+}
+
+/**
+ * Whether an existing account is the person described by a CSV row
+ */
+function isSamePerson(
+  existing: Record<string, any>,
+  user: Record<string, string>,
+): boolean {
+  const account = describeAccount(existing);
+  if (
+    user.internnumber &&
+    account.internalNumber &&
+    user.internnumber !== account.internalNumber
+  ) {
+    return false;
+  }
+  return (
+    normalizeText(account.firstName) === normalizeText(user.name) &&
+    normalizeText(account.lastName) === normalizeText(user.surname)
+  );
+}
+
+/**
+ * Register the CSV import tool on an MCP server
+ */
+export function registerImportTools(server: McpServer, schools: Schools) {
+  if (!schools.isAllowed("saveUser").allowed) return;
+
+  /**
+   * Look up the account that currently owns a username. Resolves to
+   * undefined only when Smartschool says the username does not exist, and
+   * throws when that cannot be determined.
+   */
+  const findAccount = async (
+    { call, authorize, userIndex }: School,
+    username: string,
+  ): Promise<Record<string, any> | undefined> => {
+    // The index lists every account, so it needs the policy's permission
+    const indexAllowed = USER_INDEX_GROUPS.every(
+      (group) =>
+        authorize("getAllAccountsExtended", { code: group, recursive: "1" })
+          .allowed,
+    );
+    if (indexAllowed) {
+      const candidate = (await userIndex.search(username, { limit: 5 })).find(
+        (user) => user.username.toLowerCase() === username.toLowerCase(),
+      );
+      if (candidate) {
+        return {
+          gebruikersnaam: candidate.username,
+          voornaam: candidate.firstName,
+          naam: candidate.lastName,
+          internnummer: candidate.internalNumber,
+        };
+      }
+    }
+
+    // The index only covers USER_INDEX_GROUPS; ask Smartschool directly
+    const check = authorize("getUserDetailsByUsername", { username });
+    if (!check.allowed) {
+      throw new Error(check.reason ?? "🚫 Blocked by policy.");
+    }
+    let details: any;
+    try {
+      details = await call("getUserDetailsByUsername", { username });
+    } catch (error: any) {
+      if (isUserNotFound(error)) return undefined;
+      throw error;
+    }
+    if (isUserNotFound(details)) return undefined;
+    if (typeof details === "string") details = JSON.parse(details);
+    if (
+      !details ||
+      typeof details !== "object" ||
+      !describeAccount(details).username
+    ) {
+      throw new Error("Smartschool returned no account and no error code.");
+    }
+    return details;
+  };
+
+  const planRows = async (
+    school: School,
+    records: string[][],
+    fieldByColumn: (string | undefined)[],
+    defaults: Record<string, string>,
+    selectedRows: Set<number> | undefined,
+  ): Promise<PlannedRow[]> => {
+    const reserved = new Set<string>();
+    const plan: PlannedRow[] = [];
+
+    for (const [index, cells] of records.entries()) {
+      const row = index + 2;
+      if (selectedRows && !selectedRows.has(row)) continue;
+
+      const planned: PlannedRow = { row, errors: [], warnings: [] };
+      plan.push(planned);
+
+      const fields: Record<string, string> = {};
+      fieldByColumn.forEach((field, column) => {
+        const value = cells[column]?.trim();
+        if (field && value) fields[field] = value;
+      });
+      for (const [field, value] of Object.entries(defaults)) {
+        if (!fields[field] && value) fields[field] = value;
+      }
+
+      const { class: className, officialDate, ...user } = fields;
+      planned.className = className;
+      planned.officialDate = officialDate;
+
+      const generated = !user.username;
+      if (generated && user.name && user.surname) {
+        user.username = SMARTSCHOOL_CONVENTIONS.generateUsername(
+          user.name,
+          user.surname,
+        );
+      }
+
+      const parsed = SaveUserParamsSchema.safeParse(user);
+      if (!parsed.success) {
+        planned.errors.push(
+          ...parsed.error.issues.map(
+            (issue) => `${issue.path.join(".") || "row"}: ${issue.message}`,
+          ),
+        );
+        continue;
+      }
+
+      // Find a username that is free or already belongs to this person
+      const base = user.username;
+      for (let suffix = 1; suffix <= MAX_USERNAME_SUFFIX; suffix++) {
+        const candidate = suffix === 1 ? base : `${base}${suffix}`;
+        if (reserved.has(candidate.toLowerCase())) {
+          if (!generated) {
+            planned.errors.push(
+              `username: '${candidate}' appears more than once in this import`,
+            );
+            break;
+          }
+          continue;
+        }
+
+        let existing: Record<string, any> | undefined;
+        try {
+          existing = await findAccount(school, candidate);
+        } catch (error: any) {
+          planned.errors.push(
+            `username: could not check whether '${candidate}' is free: ${error?.message ?? error}`,
+          );
+          break;
+        }
+        if (!existing) {
+          planned.action = "create";
+        } else if (isSamePerson(existing, user)) {
+          planned.action = "update";
+        } else if (!generated) {
+          const account = describeAccount(existing);
+          planned.errors.push(
+            `username: '${candidate}' already belongs to ${account.firstName} ${account.lastName}`.trim(),
+          );
+          break;
+        } else {
+          continue;
+        }
+
+        if (candidate !== base) {
+          planned.warnings.push(
+            `'${base}' is taken by someone else; using '${candidate}'`,
+          );
+        }
+        user.username = candidate;
+        reserved.add(candidate.toLowerCase());
+        planned.user = user;
+        break;
+      }
+
+      if (!planned.user && planned.errors.length === 0) {
+        planned.errors.push(
+          `username: no free variant of '${base}' found (tried up to '${base}${MAX_USERNAME_SUFFIX}')`,
+        );
+      }
+    }
+
+    return plan;
+  };
+
+  server.tool(
+    "smartschool-importUsers",
+    `
+Import user accounts from CSV, optionally placing each user in a class
+
+🎯 Use Case: Onboarding a batch of new students or staff at once
+📂 Category: User Management
+💡 Examples: Import the new first-year students from this CSV, Re-run the import for the rows that failed
+
+Columns are mapped onto saveUser parameters (name = first name, surname = last name, basisrol, passwd1, internnumber, email, ...) plus 'class' and 'officialDate'; headers like voornaam, naam, gebruikersnaam, klas map automatically. Missing usernames are generated as 'firstname.lastname', with a numeric suffix when that username belongs to someone else. An existing account of the same person (same name and internal number) is updated instead of duplicated.
+
+⚠️ Always two phases: the first call changes nothing and returns a per-row plan (create, update or invalid) plus a confirmation token. Show the plan to the user; after approval call again with identical parameters plus confirmationToken. The result lists every row; pass the failed row numbers in 'rows' to re-run only those.
+
+${SMARTSCHOOL_CONVENTIONS.userRoles.leerling}; ${SMARTSCHOOL_CONVENTIONS.userRoles.leerkracht}.
+    `.trim(),
+    { ...ImportUsersSchema.shape, ...schools.param },
+    async (params, extra) => {
+      const school = schools.resolve(params.school);
+      if ("error" in school) return errorResult(school.error);
+
+      const { confirmationToken, ...importParams } = params;
+      const { csv, filePath, columns, defaults = {}, rows } = importParams;
+
+      if (!csv === !filePath) {
+        return errorResult("❌ Give either csv (CSV text) or filePath.");
+      }
+
+      let text = csv ?? "";
+      if (filePath) {
+        try {
+          const upload = await readUpload({ path: filePath }, IMPORT_MAX_BYTES);
+          text = upload.data.toString("utf8");
+        } catch (error: any) {
+          return errorResult(
+            `❌ Could not read ${filePath}: ${error?.message ?? error}`,
+          );
+        }
+      }
+      text = text.replace(/^\uFEFF/, "");
+
+      const [headers, ...records] = parseCsv(
+        text,
+        importParams.delimiter ?? detectDelimiter(text),
+      );
+      if (!headers || records.length === 0) {
+        return errorResult(
+          "❌ The CSV needs a header row and at least one data row.",
+        );
+      }
+      if (records.length > IMPORT_MAX_ROWS) {
+        return errorResult(
+          `❌ ${records.length} rows exceeds the limit of ${IMPORT_MAX_ROWS} (IMPORT_MAX_ROWS). Split the file.`,
+        );
+      }
+
+      const { fieldByColumn, errors } = mapColumns(headers, columns);
+      if (errors.length > 0) {
+        return errorResult(
+          `❌ Invalid column mapping:\n- ${errors.join("\n- ")}`,
+        );
+      }
+      const unmapped = headers.filter((_, column) => !fieldByColumn[column]);
+
+      let plan: PlannedRow[];
+      try {
+        plan = await planRows(
+          school,
+          records,
+          fieldByColumn,
+          defaults,
+          rows ? new Set(rows) : undefined,
+        );
+      } catch (error: any) {
+        return errorResult(
+          `❌ Could not check usernames: ${error?.message ?? error}`,
+        );
+      }
+
+      const valid = plan.filter((row) => row.user);
+      const invalid = plan.filter((row) => !row.user);
+      const summary = `${plan.length} row(s): ${valid.filter((row) => row.action === "create").length} to create, ${valid.filter((row) => row.action === "update").length} to update, ${invalid.length} invalid`;
+
+      // The token covers the CSV content and the plan built from it, so an
+      // edited file or an account created since the dry run needs a new one
+      const tokenParams = {
+        ...importParams,
+        csv: text,
+        plan: valid.map(({ row, action, user, className, officialDate }) => ({
+          row,
+          action,
+          user,
+          className,
+          officialDate,
+        })),
+      };
+
+      if (!confirmationToken) {
+        const planRowsForDisplay = plan.map((row) => ({
+          row: row.row,
+          ...(row.action ? { action: row.action } : { action: "invalid" }),
+          ...(row.user ? { user: redactParams(row.user) } : {}),
+          ...(row.className ? { class: row.className } : {}),
+          ...(row.officialDate ? { officialDate: row.officialDate } : {}),
+          ...(row.errors.length > 0 ? { errors: row.errors } : {}),
+          ...(row.warnings.length > 0 ? { warnings: row.warnings } : {}),
+        }));
+        const token =
+          valid.length > 0
+            ? issueConfirmationToken(
+                "importUsers",
+                tokenParams,
+                extra.authInfo?.clientId,
+              )
+            : undefined;
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `🔍 Import dry run, nothing was changed. ${summary}.${unmapped.length > 0 ? `\n⚠️ Ignored columns: ${unmapped.join(", ")}` : ""}\n${JSON.stringify(redactOutput(planRowsForDisplay), null, 2)}\n\n${
+                token
+                  ? `To import the ${valid.length} valid row(s), ask the user to approve, then call smartschool-importUsers again with the identical parameters plus confirmationToken: "${token.token}" (single use, expires ${token.expiresAt.toISOString()}).`
+                  : "No valid rows to import. Fix the CSV or the column mapping and try again."
+              }`,
+            },
+          ],
+        };
+      }
+
+      const confirmation = consumeConfirmationToken(
+        confirmationToken,
+        "importUsers",
+        tokenParams,
+        extra.authInfo?.clientId,
+      );
+      if (!confirmation.valid) {
+        return errorResult(
+          `🚫 Nothing was imported: ${confirmation.reason}\n\nCall smartschool-importUsers without confirmationToken to receive a new plan and token.`,
+        );
+      }
+
+      const actor = extra.authInfo?.clientId;
+      const results: RowResult[] = invalid.map((row) => ({
+        row: row.row,
+        status: "invalid",
+        error: row.errors.join("; "),
+      }));
+
+      for (const planned of valid) {
+        const user = planned.user!;
+        const result: RowResult = {
+          row: planned.row,
+          username: user.username,
+          action: planned.action,
+          status: "done",
+        };
+        results.push(result);
+
+        const classParams = planned.className
+          ? {
+              userIdentifier: user.username,
+              class: planned.className,
+              ...(planned.officialDate
+                ? { officialDate: planned.officialDate }
+                : {}),
+            }
+          : undefined;
+
+        const steps: [RowResult["step"] & string, Record<string, unknown>][] = [
+          ["saveUser", user],
+        ];
+        if (classParams) steps.push(["saveUserToClass", classParams]);
+
+        for (const [method, stepParams] of steps) {
+          const check = school.authorize(method, stepParams);
+          try {
+            if (!check.allowed) {
+              throw new Error(check.reason ?? "🚫 Blocked by policy.");
+            }
+            await callWithAudit(
+              school.call,
+              method,
+              stepParams,
+              actor,
+              school.name,
+            );
+          } catch (error: any) {
+            result.status = "failed";
+            result.step = method;
+            result.error = error?.message ?? String(error);
+            break;
+          }
+        }
+      }
+
+      results.sort((a, b) => a.row - b.row);
+      const done = results.filter((row) => row.status === "done").length;
+      const failedRows = results
+        .filter((row) => row.status !== "done")
+        .map((row) => row.row);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `${failedRows.length > 0 ? "⚠️" : "✅"} Import finished: ${done} row(s) done, ${failedRows.length} failed or invalid.\n${JSON.stringify(results, null, 2)}${failedRows.length > 0 ? `\n\nTo retry after fixing the cause, run the import again with rows: ${JSON.stringify(failedRows)}.` : ""}`,
+          },
+        ],
+        ...(done === 0 ? { isError: true } : {}),
+      };
+    },
+  );
+}
@@ -0,0 +1,159 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { globToRegExp } from "./policy.js";
+import { stableStringify, toRecords } from "./records.js";
+import { getSafetyLevel, SAFETY_LEVELS } from "./safety.js";
+import { ListOptionsSchema, OUTPUT_SCHEMA_REGISTRY } from "./schemas.js";
+
+/**
+ * @file Field projection, filtering and paging for list results
+ *
+ * SAFE methods that return a list (their output schema is an array) accept
+ * fields, filter, limit and cursor. The full list is fetched (from the read
+ * cache when enabled), filtered and projected here, and returned one page at
+ * a time, so a recursive getAllAccountsExtended never floods the context.
+ *
+ * Cursors are stateless: the offset plus a hash of the query, so a cursor
+ * cannot be replayed against different parameters.
+ */
+
+export const LIST_PAGE_SIZE = Number(process.env.LIST_PAGE_SIZE) || 50;
+
+export type ListOptions = z.infer<typeof ListOptionsSchema>;
+
+export interface ListPage {
+  items: Record<string, any>[];
+  page: {
+    total: number;
+    matched: number;
+    offset: number;
+    returned: number;
+    nextCursor?: string;
+  };
+}
+
+/**
+ * Whether a method gets the list options
+ */
+export function isListMethod(methodName: string): boolean {
+  return (
+    OUTPUT_SCHEMA_REGISTRY[methodName] instanceof z.ZodArray &&
+    getSafetyLevel(methodName) === SAFETY_LEVELS.SAFE
+  );
+}
+
+/**
+ * Separate the list options from the Smartschool call parameters
+ */
+export function splitListOptions(params: Record<string, any>): {
+  options: ListOptions;
+  params: Record<string, any>;
+} {
+  const { fields, filter, limit, cursor, ...callParams } = params;
+  return { options: { fields, filter, limit, cursor }, params: callParams };
+}
+
+function queryHash(
+  methodName: string,
+  params: Record<string, any>,
+  options: ListOptions,
+): string {
+  return createHash("sha256")
+    .update(
+      stableStringify({
+        methodName,
+        params,
+        fields: options.fields,
+        filter: options.filter,
+      }),
+    )
+    .digest("hex")
+    .slice(0, 12);
+}
+
+function encodeCursor(offset: number, query: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, q: query })).toString(
+    "base64url",
+  );
+}
+
+function decodeCursor(cursor: string, query: string): number {
+  let decoded: { o?: unknown; q?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (decoded.q !== query) {
+    throw new Error(
+      "This cursor belongs to a different query; repeat the original parameters with the cursor, or omit it to start over",
+    );
+  }
+  if (typeof decoded.o !== "number" || decoded.o < 0) {
+    throw new Error("Invalid cursor");
+  }
+  return decoded.o;
+}
+
+function matchesFilter(
+  record: Record<string, any>,
+  filter: NonNullable<ListOptions["filter"]>,
+): boolean {
+  return Object.entries(filter).every(([field, allowed]) => {
+    const value = record[field];
+    if (value === undefined || value === null) return false;
+    const patterns = (Array.isArray(allowed) ? allowed : [allowed]).map(
+      globToRegExp,
+    );
+    return patterns.some((pattern) => pattern.test(String(value)));
+  });
+}
+
+function project(
+  record: Record<string, any>,
+  fields: string[],
+): Record<string, any> {
+  return Object.fromEntries(
+    fields
+      .filter((field) => field in record)
+      .map((field) => [field, record[field]]),
+  );
+}
+
+/**
+ * Filter, project and page a list result
+ */
+export function paginate(
+  methodName: string,
+  params: Record<string, any>,
+  result: unknown,
+  options: ListOptions,
+): ListPage {
+  const query = queryHash(methodName, params, options);
+  const offset = options.cursor ? decodeCursor(options.cursor, query) : 0;
+  const limit = options.limit ?? LIST_PAGE_SIZE;
+
+  const records = toRecords(result);
+  const matched = options.filter
+    ? records.filter((record) => matchesFilter(record, options.filter!))
+    : records;
+  const items = matched
+    .slice(offset, offset + limit)
+    .map((record) =>
+      options.fields ? project(record, options.fields) : record,
+    );
+
+  const next = offset + items.length;
+  return {
+    items,
+    page: {
+      total: records.length,
+      matched: matched.length,
+      offset,
+      returned: items.length,
+      ...(next < matched.length
+        ? { nextCursor: encodeCursor(next, query) }
+        : {}),
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { SENSITIVE_PARAMS } from "./schemas.js";
+
+/**
+ * @file Structured logging with levels and secret redaction
+ *
+ * Every entry is one JSON line ({time, level, msg, ...fields}) on stderr,
+ * since stdout belongs to the stdio transport, and is also appended to
+ * LOG_FILE when set. Fields are sanitized before they are written:
+ * parameters marked sensitive in the method schemas, and any password or
+ * attachment data field, are replaced at any depth, long strings such as
+ * base64 photos are truncated and errors are reduced to their name and
+ * message (plus the stack at debug level). The audit trail uses the same
+ * sanitizing.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FILE = process.env.LOG_FILE;
+
+const LOG_MAX_STRING_LENGTH = Number(process.env.LOG_MAX_STRING_LENGTH) || 256;
+
+const MAX_DEPTH = 6;
+
+const REDACTED = "[REDACTED]";
+
+/** Redacted besides SENSITIVE_PARAMS, e.g. in nested Smartschool records */
+const SENSITIVE_KEY = /^passw|^filedata$/i;
+
+function parseLogLevel(value: string | undefined): LogLevel {
+  if (!value) return "info";
+  const level = value.toLowerCase() as LogLevel;
+  if (LOG_LEVELS.includes(level)) return level;
+  process.stderr.write(
+    `${JSON.stringify({
+      time: new Date().toISOString(),
+      level: "warn",
+      msg: `⚠️ Unknown LOG_LEVEL '${value}', using 'info'. Valid levels: ${LOG_LEVELS.join(", ")}`,
+    })}\n`,
+  );
+  return "info";
+}
+
+export const LOG_LEVEL = parseLogLevel(process.env.LOG_LEVEL);
+
+const threshold = LOG_LEVELS.indexOf(LOG_LEVEL);
+let logFile = LOG_FILE;
+
+/**
+ * Replace secrets, truncate large strings and make errors serializable
+ */
+export function sanitize(
+  value: unknown,
+  maxStringLength = LOG_MAX_STRING_LENGTH,
+  depth = 0,
+): unknown {
+  if (typeof value === "string") {
+    return value.length > maxStringLength
+      ? `${value.slice(0, maxStringLength)}… [${value.length} chars]`
+      : value;
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: sanitize(value.message, maxStringLength, depth + 1),
+      ...(LOG_LEVEL === "debug" && value.stack ? { stack: value.stack } : {}),
+    };
+  }
+  if (typeof value === "bigint") return value.toString();
+  if (!value || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[…]";
+
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item, maxStringLength, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      (SENSITIVE_PARAMS.has(key) || SENSITIVE_KEY.test(key)) &&
+      field !== undefined &&
+      field !== null &&
+      field !== ""
+        ? REDACTED
+        : sanitize(field, maxStringLength, depth + 1),
+    ]),
+  );
+}
+
+function write(
+  level: Exclude<LogLevel, "silent">,
+  msg: string,
+  fields: Record<string, unknown> = {},
+): void {
+  if (LOG_LEVELS.indexOf(level) < threshold) return;
+
+  const line = `${JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...(sanitize(fields) as Record<string, unknown>),
+  })}\n`;
+
+  process.stderr.write(line);
+  if (logFile) {
+    try {
+      mkdirSync(dirname(logFile), { recursive: true });
+      appendFileSync(logFile, line, "utf8");
+    } catch (error) {
+      // Keep logging to stderr only, and say so once
+      const failedFile = logFile;
+      logFile = undefined;
+      write("error", "💥 Failed to write log file, logging to stderr only", {
+        file: failedFile,
+        error,
+      });
+    }
+  }
+}
+
+/**
+ * Structured logger used throughout the server. Pass variable data as fields
+ * rather than in the message, so it is sanitized.
+ */
+export const logger = {
+  debug: (msg: string, fields?: Record<string, unknown>) =>
+    write("debug", msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) =>
+    write("info", msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>) =>
+    write("warn", msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) =>
+    write("error", msg, fields),
+};
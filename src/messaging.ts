@@ -0,0 +1,389 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { summarizeAbsences } from "./attendance.js";
+import { callWithAudit } from "./audit.js";
+import { describeAttachments, readAttachments, renderBody } from "./compose.js";
+import {
+  consumeConfirmationToken,
+  issueConfirmationToken,
+} from "./confirmation.js";
+import { SMARTSCHOOL_CONVENTIONS } from "./conventions.js";
+import {
+  describeAccount,
+  hasCoAccount,
+  pickField,
+  toRecords,
+} from "./records.js";
+import { redactOutput } from "./redaction.js";
+import { SendBulkMsgSchema } from "./schemas.js";
+import type { Schools } from "./schools.js";
+
+/**
+ * @file Bulk templated messaging to the members of a class or group
+ *
+ * smartschool-sendBulkMsg resolves recipients through getAllAccountsExtended,
+ * renders a template per recipient and always works in two phases: the first
+ * call returns a preview and a confirmation token, the second call sends the
+ * messages one by one (throttled) and returns a delivery report. The token is
+ * bound to the recipients the preview counted, so a class that changed in
+ * between needs a new preview. While sending, a progress notification follows
+ * every message when the client asked for progress.
+ */
+
+const BULK_MSG_DELAY_MS = Number(process.env.BULK_MSG_DELAY_MS) || 500;
+const BULK_MSG_MAX_RECIPIENTS =
+  Number(process.env.BULK_MSG_MAX_RECIPIENTS) || 500;
+const PREVIEW_COUNT = 3;
+
+const PLACEHOLDERS = [
+  "firstname",
+  "lastname",
+  "name",
+  "username",
+  "class",
+  "absences",
+  "unexplained",
+] as const;
+
+type Placeholder = (typeof PLACEHOLDERS)[number];
+
+interface Recipient {
+  username: string;
+  coaccount: number;
+  values: Record<Placeholder, string>;
+}
+
+interface DeliveryResult {
+  username: string;
+  coaccount: number;
+  status: "sent" | "failed" | "skipped";
+  error?: string;
+}
+
+function errorResult(text: string) {
+  return {
+    content: [{ type: "text" as const, text }],
+    isError: true,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function placeholdersIn(template: string): string[] {
+  return [...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]);
+}
+
+function render(
+  template: string,
+  values: Record<Placeholder, string>,
+  html: boolean,
+): string {
+  // Markdown links URL-encode the braces of placeholders in their address
+  return template.replace(
+    /\{(\w+)\}|%7B(\w+)%7D/gi,
+    (placeholder, name: string | undefined, encodedName?: string) => {
+      const value = values[(name ?? encodedName) as Placeholder];
+      if (value === undefined) return placeholder;
+      if (encodedName !== undefined) {
+        return html ? encodeURIComponent(value) : placeholder;
+      }
+      return html ? escapeHtml(value) : value;
+    },
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Register the bulk messaging tool on an MCP server
+ */
+export function registerMessagingTools(server: McpServer, schools: Schools) {
+  if (
+    !schools.isAllowed("sendMsg").allowed ||
+    !schools.isAllowed("getAllAccountsExtended").allowed
+  ) {
+    return;
+  }
+
+  server.tool(
+    "smartschool-sendBulkMsg",
+    `
+Send a personalised message to every member of a class or group, or to their parents
+
+🎯 Use Case: Class-wide letters to parents, reminders with per-student details
+📂 Category: Communication
+💡 Examples: Message all parents of 3B about the school trip, Tell the parents of 4A how many unexplained half-days their child has
+
+Placeholders in title and body: {firstname}, {lastname}, {name}, {username}, {class}, {absences} (absent half-days this school year) and {unexplained} (unexplained half-days). Recipients are the members of the class/group, sent to co-account 1 and 2 (parents/guardians) by default; members without that co-account are skipped.
+
+⚠️ Always two phases: the first call sends nothing and returns the recipient count, a few rendered messages and a confirmation token. Show the preview to the user and only call again with the identical parameters plus confirmationToken after explicit approval. Messages are then sent one at a time, with a progress notification after each when the request has a progressToken, and a per-recipient delivery report is returned. If the members changed since the preview, nothing is sent and a new preview is needed.
+
+${SMARTSCHOOL_CONVENTIONS.coAccountTypes[1]}; ${SMARTSCHOOL_CONVENTIONS.coAccountTypes[2]}. Write the body in HTML, or in Markdown with bodyFormat: 'markdown'. Files are attached with attachmentPaths or attachmentResources and listed in the preview.
+    `.trim(),
+    { ...SendBulkMsgSchema.shape, ...schools.param },
+    async (params, extra) => {
+      const school = schools.resolve(params.school);
+      if ("error" in school) return errorResult(school.error);
+      const { call, authorize } = school;
+
+      // The school stays in bulkParams, so the token is bound to it
+      const { confirmationToken, ...bulkParams } = params;
+      const {
+        code,
+        recursive,
+        title,
+        body,
+        senderIdentifier,
+        coaccounts = [1, 2],
+        schoolYear = SMARTSCHOOL_CONVENTIONS.currentSchoolYear(),
+        copyToLVS,
+        bodyFormat,
+        attachmentPaths,
+        attachmentResources,
+      } = bulkParams;
+
+      const used = [...placeholdersIn(title), ...placeholdersIn(body)];
+      const unknown = used.filter(
+        (name) => !PLACEHOLDERS.includes(name as Placeholder),
+      );
+      if (unknown.length > 0) {
+        return errorResult(
+          `❌ Unknown placeholder(s): ${[...new Set(unknown)].map((name) => `{${name}}`).join(", ")}. Available: ${PLACEHOLDERS.map((name) => `{${name}}`).join(", ")}.`,
+        );
+      }
+      const usesAbsences = used.some(
+        (name) => name === "absences" || name === "unexplained",
+      );
+
+      // Markdown is converted before placeholders are filled in, so their
+      // values stay plain text (and are URL-encoded in link addresses)
+      const bodyTemplate = renderBody(body, bodyFormat);
+      let attachments: Awaited<ReturnType<typeof readAttachments>>;
+      try {
+        attachments = await readAttachments({
+          paths: attachmentPaths,
+          resources: attachmentResources,
+        });
+      } catch (error: any) {
+        return errorResult(error?.message ?? String(error));
+      }
+
+      // Resolve recipients
+      const membersParams = { code, recursive: recursive ? "1" : "0" };
+      const membersCheck = authorize("getAllAccountsExtended", membersParams);
+      if (!membersCheck.allowed) {
+        return errorResult(membersCheck.reason ?? "🚫 Blocked by policy.");
+      }
+
+      let members: Record<string, any>[];
+      try {
+        members = toRecords(
+          await call("getAllAccountsExtended", membersParams),
+        );
+      } catch (error: any) {
+        return errorResult(
+          `❌ Could not list the members of ${code}: ${error?.message ?? error}`,
+        );
+      }
+
+      const recipients: Recipient[] = [];
+      const skipped: DeliveryResult[] = [];
+      for (const member of members) {
+        const account = describeAccount(member);
+        if (!account.username) continue;
+        const values: Record<Placeholder, string> = {
+          firstname: account.firstName,
+          lastname: account.lastName,
+          name: `${account.firstName} ${account.lastName}`.trim(),
+          username: account.username,
+          class: pickField(member, ["klasnaam", "klas", "klascode"]) || code,
+          absences: "",
+          unexplained: "",
+        };
+        for (const coaccount of coaccounts) {
+          if (hasCoAccount(member, coaccount)) {
+            recipients.push({ username: account.username, coaccount, values });
+          } else {
+            skipped.push({
+              username: account.username,
+              coaccount,
+              status: "skipped",
+              error: `Co-account ${coaccount} does not exist`,
+            });
+          }
+        }
+      }
+
+      if (recipients.length === 0) {
+        return errorResult(
+          `❌ No recipients: ${members.length} member(s) in ${code}, ${skipped.length} skipped because the co-account does not exist.`,
+        );
+      }
+      if (recipients.length > BULK_MSG_MAX_RECIPIENTS) {
+        return errorResult(
+          `❌ ${recipients.length} recipients exceeds the limit of ${BULK_MSG_MAX_RECIPIENTS} (BULK_MSG_MAX_RECIPIENTS). Split the message over smaller groups.`,
+        );
+      }
+
+      const messageParams = (recipient: Recipient) => ({
+        userIdentifier: recipient.username,
+        title: render(title, recipient.values, false),
+        body: render(bodyTemplate, recipient.values, true),
+        senderIdentifier,
+        ...(attachments.files.length > 0
+          ? { attachments: attachments.files }
+          : {}),
+        coaccount: recipient.coaccount,
+        ...(copyToLVS !== undefined ? { copyToLVS } : {}),
+      });
+
+      for (const recipient of recipients) {
+        const check = authorize("sendMsg", messageParams(recipient));
+        if (!check.allowed) {
+          return errorResult(check.reason ?? "🚫 Blocked by policy.");
+        }
+      }
+
+      // Absence counts are fetched once per member, and only when used
+      const absenceCache = new Map<
+        string,
+        ReturnType<typeof summarizeAbsences>
+      >();
+      const fillAbsences = async (recipient: Recipient) => {
+        if (!usesAbsences) return;
+        let totals = absenceCache.get(recipient.username);
+        if (!totals) {
+          totals = summarizeAbsences(
+            await call("getAbsents", {
+              userIdentifier: recipient.username,
+              schoolYear,
+            }),
+          );
+          absenceCache.set(recipient.username, totals);
+        }
+        recipient.values.absences = String(totals.absentHalfDays);
+        recipient.values.unexplained = String(totals.unexplained);
+      };
+
+      // Bind the token to the recipients shown in the preview as well
+      const tokenParams = {
+        ...bulkParams,
+        recipients: recipients
+          .map((recipient) => `${recipient.username}:${recipient.coaccount}`)
+          .sort(),
+      };
+
+      if (!confirmationToken) {
+        const { token, expiresAt } = issueConfirmationToken(
+          "sendBulkMsg",
+          tokenParams,
+          extra.authInfo?.clientId,
+        );
+        const samples = recipients.slice(0, PREVIEW_COUNT);
+        try {
+          for (const recipient of samples) await fillAbsences(recipient);
+        } catch (error: any) {
+          return errorResult(
+            `❌ Could not get absences for the preview: ${error?.message ?? error}`,
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `⏸️ Nothing has been sent yet.\n\n📬 ${recipients.length} message(s) to ${new Set(recipients.map((r) => r.username)).size} member(s) of ${code}; ${skipped.length} skipped because the co-account does not exist.\n\n🔍 Preview of ${samples.length} rendered message(s):\n${JSON.stringify(
+                redactOutput(
+                  samples.map((recipient) => {
+                    const { userIdentifier, coaccount, title, body } =
+                      messageParams(recipient);
+                    return { userIdentifier, coaccount, title, body };
+                  }),
+                ),
+                null,
+                2,
+              )}${attachments.info.length > 0 ? `\n\n${describeAttachments(attachments.info)}` : ""}${skipped.length > 0 ? `\n\n⏭️ Skipped:\n${JSON.stringify(redactOutput(skipped), null, 2)}` : ""}\n\nTo send, ask the user to approve, then call smartschool-sendBulkMsg again with the identical parameters plus confirmationToken: "${token}" (single use, expires ${expiresAt.toISOString()}).`,
+            },
+          ],
+        };
+      }
+
+      const confirmation = consumeConfirmationToken(
+        confirmationToken,
+        "sendBulkMsg",
+        tokenParams,
+        extra.authInfo?.clientId,
+      );
+      if (!confirmation.valid) {
+        return errorResult(
+          `🚫 Nothing was sent: ${confirmation.reason} The recipients of ${code} may have changed since the preview.\n\nCall smartschool-sendBulkMsg without confirmationToken to receive a new preview and token.`,
+        );
+      }
+
+      // Sending takes BULK_MSG_DELAY_MS per message, so keep the client
+      // informed (and its request timeout reset, if it supports that)
+      const progressToken = extra._meta?.progressToken;
+      const reportProgress = async (done: number) => {
+        if (progressToken === undefined) return;
+        await extra
+          .sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress: done,
+              total: recipients.length,
+              message: `${done} of ${recipients.length} message(s) handled`,
+            },
+          })
+          .catch(() => undefined);
+      };
+
+      const report: DeliveryResult[] = [];
+      for (const [index, recipient] of recipients.entries()) {
+        if (index > 0) await sleep(BULK_MSG_DELAY_MS);
+        try {
+          await fillAbsences(recipient);
+          await callWithAudit(
+            call,
+            "sendMsg",
+            messageParams(recipient),
+            extra.authInfo?.clientId,
+            school.name,
+          );
+          report.push({
+            username: recipient.username,
+            coaccount: recipient.coaccount,
+            status: "sent",
+          });
+        } catch (error: any) {
+          report.push({
+            username: recipient.username,
+            coaccount: recipient.coaccount,
+            status: "failed",
+            error: error?.message ?? String(error),
+          });
+        }
+        await reportProgress(index + 1);
+      }
+
+      const sent = report.filter((row) => row.status === "sent").length;
+      const failed = report.length - sent;
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `${failed > 0 ? "⚠️" : "✅"} Bulk message to ${code}: ${sent} sent, ${failed} failed, ${skipped.length} skipped.\n${JSON.stringify(redactOutput([...report, ...skipped]), null, 2)}`,
+          },
+        ],
+        ...(failed > 0 && sent === 0 ? { isError: true } : {}),
+      };
+    },
+  );
+}
@@ -1,13 +1,70 @@
 #!/usr/bin/env node
 
-/**
- * Smartschool domain knowledge and conventions
- */
-
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { SmartschoolClient } from "@abrianto/smartschool-kit";
-import { SCHEMA_REGISTRY, getMethodSchema } from "./schemas.js";
+import {
+  SCHEMA_REGISTRY,
+  AuditLogQuerySchema,
+  CriticalConfirmationSchema,
+  FindUserSchema,
+  getMethodSchema,
+  getToolOutputSchema,
+  ListOptionsSchema,
+} from "./schemas.js";
+import {
+  AUDIT_LOG_FILE,
+  assertAuditWritable,
+  isAuditAdmin,
+  queryAuditLog,
+  recordAuditEntry,
+  redactParams,
+} from "./audit.js";
+import { CACHE_ENABLED, CACHE_FILE } from "./cache.js";
+import { prepareMessage } from "./compose.js";
+import { METHOD_CONTEXT } from "./context.js";
+import {
+  METHOD_SAFETY,
+  SAFETY_LEVELS,
+  type SafetyLevel,
+  getSafetyLevel,
+} from "./safety.js";
+import { buildDriftReport, formatDriftReport } from "./drift.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { resolveUserName } from "./users.js";
+import { registerAttendanceTools } from "./attendance.js";
+import { registerMessagingTools } from "./messaging.js";
+import { registerImportTools } from "./import.js";
+import { registerRolloverTools } from "./rollover.js";
+import {
+  prepareUndo,
+  recordUndo,
+  registerUndoTool,
+  UNDOABLE_METHODS,
+} from "./undo.js";
+import {
+  MCP_HTTP_HOST,
+  MCP_HTTP_PORT,
+  loadBearerTokens,
+  startHttpServer,
+} from "./http.js";
+import { PREVIEWABLE_METHODS, buildImpactPreview } from "./preview.js";
+import { formatMethodResult, statusOutput } from "./output.js";
+import { formatPhotoResult, preparePhotoUpload } from "./photos.js";
+import { isListMethod, paginate, splitListOptions } from "./listing.js";
+import {
+  activeRedaction,
+  type RedactionProfile,
+  type Redactor,
+} from "./redaction.js";
+import {
+  CONFIRMATION_TTL_SECONDS,
+  consumeConfirmationToken,
+  issueConfirmationToken,
+} from "./confirmation.js";
+import { LOG_FILE, LOG_LEVEL, logger } from "./logger.js";
+import { checkParamConstraints } from "./policy.js";
+import { loadSchools, registerSchoolsTool, type Schools } from "./schools.js";
 
 /**
  * @file Dynamic MCP Server for Smartschool API
@@ -24,122 +81,35 @@ import { SCHEMA_REGISTRY, getMethodSchema } from "./schemas.js";
  */
 
 // Configuration
-const SMARTSCHOOL_API_ENDPOINT = process.env.SMARTSCHOOL_API_ENDPOINT;
-const SMARTSCHOOL_ACCESS_CODE = process.env.SMARTSCHOOL_ACCESS_CODE;
 const ALLOW_DESTRUCTIVE = process.env.ALLOW_DESTRUCTIVE === "true";
 const REQUIRE_CONFIRMATION = process.env.REQUIRE_CONFIRMATION !== "false"; // Default true
+const POLICY_FILE = process.env.POLICY_FILE;
+const EXPOSE_UNCLASSIFIED = process.env.EXPOSE_UNCLASSIFIED === "true";
+const MCP_TRANSPORT = process.env.MCP_TRANSPORT || "stdio";
 
-if (!SMARTSCHOOL_API_ENDPOINT || !SMARTSCHOOL_ACCESS_CODE) {
-  console.error(
-    "Missing SMARTSCHOOL_API_ENDPOINT or SMARTSCHOOL_ACCESS_CODE environment variables.",
-  );
+// Sent messages cannot be recalled: always show the rendered message first,
+// even with REQUIRE_CONFIRMATION=false
+const PREVIEW_FIRST_METHODS = new Set(["sendMsg"]);
+
+// Initialize one client, read cache, user index and policy per school
+let schools: Schools;
+try {
+  schools = loadSchools();
+} catch (error) {
+  logger.error("Failed to load schools", { error });
   process.exit(1);
 }
 
-// Initialize client
-let smartschoolClient: SmartschoolClient;
+// Load the redaction profile applied to tool and resource responses
+let redactionProfile: RedactionProfile;
+let redact: Redactor;
 try {
-  smartschoolClient = new SmartschoolClient({
-    apiEndpoint: SMARTSCHOOL_API_ENDPOINT,
-    accesscode: SMARTSCHOOL_ACCESS_CODE,
-  });
+  ({ profile: redactionProfile, redact } = activeRedaction());
 } catch (error) {
-  console.error("Failed to initialize SmartschoolClient:", error);
+  logger.error("Failed to load redaction profile", { error });
   process.exit(1);
 }
 
-// Create server
-const server = new McpServer({
-  name: "smartschool-dynamic",
-  version: "1.0.0",
-});
-
-/**
- * Safety classification for API methods
- */
-const SAFETY_LEVELS = {
-  SAFE: "safe", // Read-only operations, no risk
-  MODERATE: "moderate", // Modifications that are reversible
-  DESTRUCTIVE: "destructive", // Irreversible or high-impact operations
-  CRITICAL: "critical", // System-level changes that could break things
-} as const;
-
-type SafetyLevel = (typeof SAFETY_LEVELS)[keyof typeof SAFETY_LEVELS];
-
-/**
- * Method safety classification
- */
-const METHOD_SAFETY: Record<string, SafetyLevel> = {
-  // SAFE - Read-only operations
-  getUserDetails: SAFETY_LEVELS.SAFE,
-  getUserDetailsByUsername: SAFETY_LEVELS.SAFE,
-  getUserDetailsByNumber: SAFETY_LEVELS.SAFE,
-  getUserDetailsByScannableCode: SAFETY_LEVELS.SAFE,
-  getAbsents: SAFETY_LEVELS.SAFE,
-  getAbsentsByDate: SAFETY_LEVELS.SAFE,
-  getAbsentsByDateAndGroup: SAFETY_LEVELS.SAFE,
-  getAbsentsWithAlias: SAFETY_LEVELS.SAFE,
-  getAbsentsWithAliasByDate: SAFETY_LEVELS.SAFE,
-  getAbsentsWithInternalNumberByDate: SAFETY_LEVELS.SAFE,
-  getAbsentsWithUsernameByDate: SAFETY_LEVELS.SAFE,
-  getClassTeachers: SAFETY_LEVELS.SAFE,
-  getSchoolyearDataOfClass: SAFETY_LEVELS.SAFE,
-  getStudentCareer: SAFETY_LEVELS.SAFE,
-  getUserOfficialClass: SAFETY_LEVELS.SAFE,
-  getAccountPhoto: SAFETY_LEVELS.SAFE,
-  getAllAccounts: SAFETY_LEVELS.SAFE,
-  getAllAccountsExtended: SAFETY_LEVELS.SAFE,
-  getAllGroupsAndClasses: SAFETY_LEVELS.SAFE,
-  getClassList: SAFETY_LEVELS.SAFE,
-  getClassListJson: SAFETY_LEVELS.SAFE,
-  getHelpdeskMiniDbItems: SAFETY_LEVELS.SAFE,
-  getCourses: SAFETY_LEVELS.SAFE,
-  returnJsonErrorCodes: SAFETY_LEVELS.SAFE,
-  returnCsvErrorCodes: SAFETY_LEVELS.SAFE,
-  checkStatus: SAFETY_LEVELS.SAFE,
-  getReferenceField: SAFETY_LEVELS.SAFE,
-  getSkoreClassTeacherCourseRelation: SAFETY_LEVELS.SAFE,
-
-  // MODERATE - Reversible modifications
-  sendMsg: SAFETY_LEVELS.MODERATE,
-  saveSignature: SAFETY_LEVELS.MODERATE,
-  setAccountPhoto: SAFETY_LEVELS.MODERATE,
-  saveUserParameter: SAFETY_LEVELS.MODERATE,
-  changeUsername: SAFETY_LEVELS.MODERATE,
-  changeInternNumber: SAFETY_LEVELS.MODERATE,
-  replaceInum: SAFETY_LEVELS.MODERATE,
-  savePassword: SAFETY_LEVELS.MODERATE,
-  changePasswordAtNextLogin: SAFETY_LEVELS.MODERATE,
-  forcePasswordReset: SAFETY_LEVELS.MODERATE,
-  saveUserToClass: SAFETY_LEVELS.MODERATE,
-  saveUserToClasses: SAFETY_LEVELS.MODERATE,
-  saveUserToClassesAndGroups: SAFETY_LEVELS.MODERATE,
-  removeUserFromGroup: SAFETY_LEVELS.MODERATE,
-  addHelpdeskTicket: SAFETY_LEVELS.MODERATE,
-  setAccountStatus: SAFETY_LEVELS.MODERATE,
-
-  // DESTRUCTIVE - High impact, potentially irreversible
-  saveUser: SAFETY_LEVELS.DESTRUCTIVE, // Creates/modifies users
-  saveClass: SAFETY_LEVELS.DESTRUCTIVE, // Creates/modifies classes
-  saveGroup: SAFETY_LEVELS.DESTRUCTIVE, // Creates/modifies groups
-  addCourse: SAFETY_LEVELS.DESTRUCTIVE, // Creates courses
-  addCourseStudents: SAFETY_LEVELS.DESTRUCTIVE,
-  addCourseTeacher: SAFETY_LEVELS.DESTRUCTIVE,
-  changeGroupOwners: SAFETY_LEVELS.DESTRUCTIVE,
-  saveClassList: SAFETY_LEVELS.DESTRUCTIVE,
-  saveClassListJson: SAFETY_LEVELS.DESTRUCTIVE,
-  saveSchoolyearDataOfClass: SAFETY_LEVELS.DESTRUCTIVE,
-  removeCoAccount: SAFETY_LEVELS.DESTRUCTIVE,
-
-  // CRITICAL - System-level changes
-  delUser: SAFETY_LEVELS.CRITICAL, // Deletes users permanently
-  delClass: SAFETY_LEVELS.CRITICAL, // Deletes classes permanently
-  clearGroup: SAFETY_LEVELS.CRITICAL, // Removes all users from group
-  unregisterStudent: SAFETY_LEVELS.CRITICAL, // Unregisters students
-  startSkoreSync: SAFETY_LEVELS.CRITICAL, // System synchronization
-  deactivateTwoFactorAuthentication: SAFETY_LEVELS.CRITICAL,
-};
-
 /**
  * Get safety warnings for a method
  */
@@ -180,328 +150,25 @@ function getSafetyWarning(
  * Check if a method requires user confirmation
  */
 function requiresConfirmation(methodName: string): boolean {
+  if (PREVIEW_FIRST_METHODS.has(methodName)) return true;
   if (!REQUIRE_CONFIRMATION) return false;
 
-  const safetyLevel = METHOD_SAFETY[methodName] || SAFETY_LEVELS.MODERATE;
+  const safetyLevel = getSafetyLevel(methodName);
   return (
     safetyLevel === SAFETY_LEVELS.DESTRUCTIVE ||
     safetyLevel === SAFETY_LEVELS.CRITICAL
   );
 }
 
-/**
- * Check if a method is allowed to run
- */
-function isMethodAllowed(methodName: string): {
-  allowed: boolean;
-  reason?: string;
-} {
-  const safetyLevel = METHOD_SAFETY[methodName] || SAFETY_LEVELS.MODERATE;
-
-  if (safetyLevel === SAFETY_LEVELS.CRITICAL && !ALLOW_DESTRUCTIVE) {
-    return {
-      allowed: false,
-      reason:
-        "🚫 CRITICAL operations are disabled. Set ALLOW_DESTRUCTIVE=true to enable.",
-    };
-  }
-
-  if (safetyLevel === SAFETY_LEVELS.DESTRUCTIVE && !ALLOW_DESTRUCTIVE) {
-    return {
-      allowed: false,
-      reason:
-        "🚫 DESTRUCTIVE operations are disabled. Set ALLOW_DESTRUCTIVE=true to enable.",
-    };
-  }
-
-  return { allowed: true };
-}
-const SMARTSCHOOL_CONVENTIONS = {
-  // Username generation from names
-  generateUsername: (firstName: string, lastName: string): string => {
-    return `${firstName.toLowerCase()}.${lastName.toLowerCase()}`
-      .replace(/[^a-z.]/g, "") // Remove special characters
-      .replace(/\s+/g, "."); // Replace spaces with dots
-  },
-
-  // Absence codes explanation
-  absenceCodes: {
-    "|": "Present - Student was in attendance",
-    L: "Late - Student arrived late to class",
-    Z: "Sick/Illness - Student was absent due to sickness",
-    D: "Doctor - Student had medical appointment",
-    B: "Known - Absence was notified in advance (excused)",
-    R: "Unforeseen - Existential reason (family emergency, etc.)",
-    "-": "Unknown - Unexplained/unexcused absence",
-    G: "Spread - Spread of lesson program",
-    C: "Topsport - Absence due to top sports activities",
-    H: "Revalidation - Absence due to revalidation/therapy",
-    O: "Childcare - Absence due to childcare responsibilities",
-    Q: "Mourning - Absence due to mourning/bereavement",
-    P: "Personal - Personal reasons for absence",
-    W: "Internship work - Absence due to internship work",
-    M: "Absent internship - Absence from internship work",
-    J: "Maternity leave - Absence due to maternity leave",
-    Y: "Suspension - Absence due to suspension",
-    U: "Temporary termination - Temporary termination of student",
-    T: "Termination - Termination of student",
-    null: "No school/Holiday - Non-school day or holiday period",
-  } as Record<string, string>,
-
-  // User roles explanation
-  userRoles: {
-    leerling: "Student - A student enrolled in the school",
-    leerkracht: "Teacher - A teaching staff member",
-    directie: "Management - School management/administrative staff",
-    andere: "Other - Other staff (secretary, janitor, etc.)",
-  },
-
-  // Co-account types
-  coAccountTypes: {
-    0: "Main account",
-    1: "First co-account (often parent/guardian)",
-    2: "Second co-account (often second parent/guardian)",
-    3: "Third co-account",
-    4: "Fourth co-account",
-    5: "Fifth co-account",
-    6: "Sixth co-account",
-  },
-
-  // School year format
-  schoolYearFormat: (year: string): string => {
-    return `School year ${year}-${parseInt(year) + 1}`;
-  },
-
-  // Common class naming patterns
-  classPatterns: {
-    examples: ["1A", "2B", "3C", "6WEWE", "STEM-GROUP-1"],
-    explanation:
-      "Classes typically follow patterns like [Grade][Section] (1A, 2B) or descriptive codes (STEM-GROUP-1)",
-  },
-};
-
-/**
- * Enhanced context mapping for AI understanding
- * Maps method names to human-friendly descriptions and use cases
- */
-const METHOD_CONTEXT: Record<
-  string,
-  {
-    description: string;
-    useCase: string;
-    category: string;
-    examples: string[];
-    smartschoolContext?: string;
-  }
-> = {
-  // User Management
-  saveUser: {
-    description: "Create or update a user account (student, teacher, staff)",
-    useCase:
-      "When you need to add new students/teachers or update existing user information",
-    category: "User Management",
-    examples: [
-      "Add a new student to the school",
-      "Update a teacher's email address",
-    ],
-    smartschoolContext: `Creates usernames from names automatically (e.g., 'John Doe' becomes 'john.doe'). 
-    
-User roles:
-${Object.entries(SMARTSCHOOL_CONVENTIONS.userRoles)
-  .map(([role, desc]) => `• '${role}': ${desc}`)
-  .join("\n")}
-
-For new users, username is typically generated as 'firstname.lastname' in lowercase.`,
-  },
-  getUserDetails: {
-    description:
-      "Get comprehensive user information including profile, groups, and co-accounts",
-    useCase: "When you need to look up detailed information about a person",
-    category: "User Information",
-    examples: [
-      "Find a student's contact details",
-      "Check which classes a teacher belongs to",
-    ],
-    smartschoolContext:
-      "Returns extensive user data including all co-accounts (parent/guardian accounts). If you only have a name like 'John Doe', the userIdentifier is typically 'john.doe'.",
-  },
-  getUserDetailsByUsername: {
-    description: "Look up user details using their username",
-    useCase:
-      "When you only know someone's username but need their full profile",
-    category: "User Information",
-    examples: ["Find user info for 'john.doe'"],
-    smartschoolContext:
-      "Usernames in Smartschool typically follow the pattern 'firstname.lastname' (e.g., 'john.doe' for John Doe).",
-  },
-  getUserDetailsByNumber: {
-    description: "Look up user details using their internal number",
-    useCase: "When you have an internal ID and need user information",
-    category: "User Information",
-    examples: ["Get details for student #12345"],
-  },
-  delUser: {
-    description: "Remove a user from the system permanently",
-    useCase: "When a student graduates or staff member leaves",
-    category: "User Management",
-    examples: ["Remove graduated student", "Delete former teacher account"],
-  },
-
-  // Groups and Classes
-  saveClass: {
-    description: "Create or update a class/group in the school",
-    useCase: "When setting up new academic years or reorganizing classes",
-    category: "Class Management",
-    examples: ["Create new '6A' class", "Update class description"],
-  },
-  saveGroup: {
-    description: "Create or update student/teacher groups",
-    useCase: "For organizing extracurricular activities or special groups",
-    category: "Group Management",
-    examples: ["Create 'Chess Club' group", "Set up 'Math Tutoring' group"],
-  },
-  saveUserToClass: {
-    description: "Assign a student to a specific class",
-    useCase: "When enrolling students or moving them between classes",
-    category: "Class Assignment",
-    examples: ["Move student to class 5B", "Assign new student to 1A"],
-  },
-  getClassTeachers: {
-    description: "Find out which teachers are assigned to which classes",
-    useCase: "To see class-teacher assignments and responsibilities",
-    category: "Class Information",
-    examples: [
-      "Who teaches class 3A?",
-      "Get all class assignments",
-      "List all titular teachers",
-    ],
-    smartschoolContext: `Returns detailed teacher-class assignments with both teacher and class information. Each record shows:
-
-**Teacher Info:**
-- Personal details: name, first name, username
-- System IDs: internal number, staff number (stamboeknummer)
-- Schedule code: koppelingsveldschoolagenda (for timetable integration)
-
-**Class Info:** 
-- Class details: klasnaam (e.g., "1A1", "6WEWE"), klasomschrijving (description)
-- Administrative: klasid (internal class ID), instellingsnummer (institute number)
-- Administrative group: administratievegroep (for official classes)
-
-**Key Fields:**
-- 'isOfficial': true = official/formal class, false = informal group
-- Multiple teachers can be assigned to the same class (co-teaching)
-- Some fields may be null for informal groups (instellingsnummer, administratievegroep)
-
-**Parameter:**
-- getAllOwners: true = get all assigned teachers, false = only primary teacher
-
-**Belgian Context:**
-- "Klas" = Class, "Klasgroep" = Class group
-- Class codes follow Belgian patterns: "1A1" (grade 1, section A, group 1), "7KZ" (7th year specialization)
-- stamboeknummer "NULL" string indicates no staff number assigned`,
-  },
-  delClass: {
-    description: "Remove a class or group from the system",
-    useCase: "When classes are no longer needed or reorganizing",
-    category: "Class Management",
-    examples: ["Delete old graduation class", "Remove unused group"],
-  },
-
-  // Communication
-  sendMsg: {
-    description: "Send messages to users (students, parents, teachers)",
-    useCase: "For school communications and notifications",
-    category: "Communication",
-    examples: [
-      "Send homework reminder",
-      "Notify parents about event",
-      "Message teacher about meeting",
-    ],
-    smartschoolContext: `Can send to main accounts or co-accounts (parent/guardian accounts). 
-    
-Co-account types:
-${Object.entries(SMARTSCHOOL_CONVENTIONS.coAccountTypes)
-  .map(([num, desc]) => `• ${num}: ${desc}`)
-  .join("\n")}
-
-Use coaccount=0 for main account (student/teacher), coaccount=1 for first parent, etc.
-
-Only HTML is accepted to make a layout for the message body.`,
-  },
-
-  // Attendance & Absences
-  getAbsents: {
-    description: "Get student absence records for a school year",
-    useCase: "To track attendance and identify patterns",
-    category: "Attendance",
-    examples: ["Check John's absences this year", "Generate attendance report"],
-    smartschoolContext: `Returns absence data with codes for morning (am) and afternoon (pm). 
-    
-Absence codes mean:
-${Object.entries(SMARTSCHOOL_CONVENTIONS.absenceCodes)
-  .map(([code, desc]) => `• '${code}': ${desc}`)
-  .join("\n")}
-
-Example response: {"2024-09-01": {"am": "|", "pm": "Z"}} means present in morning, sick in afternoon.`,
-  },
-  getAbsentsByDate: {
-    description: "See who was absent on a specific date",
-    useCase: "To check daily attendance or investigate specific days",
-    category: "Attendance",
-    examples: ["Who was absent yesterday?", "Check attendance for Dec 15th"],
-    smartschoolContext: `Shows all students' attendance for one date with absence codes. ${Object.keys(
-      SMARTSCHOOL_CONVENTIONS.absenceCodes,
-    )
-      .slice(0, 5)
-      .map(
-        (code) =>
-          `'${code}' = ${SMARTSCHOOL_CONVENTIONS.absenceCodes[code]?.split(" - ")[0] || "Unknown"}`,
-      )
-      .join(", ")}, etc.`,
-  },
-
-  // Administrative
-  setAccountStatus: {
-    description: "Change user account status (active, inactive, temporary)",
-    useCase: "For managing account access and permissions",
-    category: "Account Management",
-    examples: ["Deactivate former student", "Temporarily disable account"],
-  },
-  savePassword: {
-    description: "Set or change user passwords",
-    useCase: "For password resets and initial account setup",
-    category: "Account Management",
-    examples: ["Reset forgotten password", "Set initial password for new user"],
-  },
-  changeUsername: {
-    description: "Change a user's login username",
-    useCase: "When users need different usernames",
-    category: "Account Management",
-    examples: ["Update username after name change"],
-  },
-
-  // Academic Records
-  getStudentCareer: {
-    description: "Get complete academic history of a student",
-    useCase: "To see student's progression through grades and classes",
-    category: "Academic Records",
-    examples: ["Review student's school history", "Check grade progression"],
-  },
-  getSchoolyearDataOfClass: {
-    description:
-      "Get administrative details for a class in specific school year",
-    useCase: "For academic planning and record keeping",
-    category: "Academic Records",
-    examples: ["Check class details for 2024-2025"],
-  },
-};
-
 /**
  * Generate smart parameter schema from method name and context
  */
-function generateParameterSchema(methodName: string): Record<string, any> {
+function generateParameterSchema(
+  methodName: string,
+): Record<string, any> | undefined {
   // Use the proper Zod schema from our schema registry
   const schema = getMethodSchema(methodName);
+  if (!schema) return undefined;
 
   // Convert Zod schema to MCP parameter format
   const shape = schema.shape;
@@ -510,6 +177,14 @@ function generateParameterSchema(methodName: string): Record<string, any> {
   for (const [key, zodSchema] of Object.entries(shape)) {
     params[key] = zodSchema;
   }
+  if (isListMethod(methodName)) {
+    Object.assign(params, ListOptionsSchema.shape);
+  }
+  // Unclassified methods count as CRITICAL, so they need a token field too
+  if (requiresConfirmation(methodName) && !("confirmationToken" in params)) {
+    params.confirmationToken = CriticalConfirmationSchema;
+  }
+  Object.assign(params, schools.param);
 
   return params;
 }
@@ -528,18 +203,17 @@ function handleError(error: any, methodName: string) {
     errorMessage += "An unexpected error occurred";
   }
 
-  console.error("Tool execution error:", errorMessage);
-  return {
-    content: [{ type: "text" as const, text: errorMessage }],
-    isError: true,
-  };
+  logger.error("Tool execution error", { method: methodName, error });
+  return statusOutput(methodName, "error", errorMessage);
 }
 
 /**
- * Auto-discover and register all SmartschoolClient methods as MCP tools
+ * Auto-discover SmartschoolClient methods and select the ones to expose as
+ * MCP tools. Runs once at startup and logs every skipped method.
  */
-function registerDynamicTools() {
-  const clientPrototype = Object.getPrototypeOf(smartschoolClient);
+function discoverExposedMethods(): string[] {
+  // Every school uses the same client class
+  const clientPrototype = Object.getPrototypeOf(schools.all[0].client);
   const methodNames = Object.getOwnPropertyNames(clientPrototype).filter(
     (name) => {
       // Only include public methods (not private, constructor, etc.)
@@ -553,12 +227,69 @@ function registerDynamicTools() {
     },
   );
 
-  console.error(`🔍 Discovered ${methodNames.length} Smartschool methods`);
-  console.error(
-    `📋 Using ${Object.keys(SCHEMA_REGISTRY).length} predefined schemas`,
+  logger.info("🔍 Discovered Smartschool methods", {
+    methods: methodNames.length,
+    schemas: Object.keys(SCHEMA_REGISTRY).length,
+  });
+
+  const driftLines = formatDriftReport(
+    buildDriftReport(methodNames, {
+      schemas: SCHEMA_REGISTRY,
+      safety: METHOD_SAFETY,
+      context: METHOD_CONTEXT,
+    }),
   );
+  if (driftLines.length > 0) {
+    logger.warn("🧭 Drift report", { drift: driftLines });
+  }
+
+  const exposedMethods = methodNames.filter((methodName) => {
+    // Fail closed on methods the registries do not know about
+    if (!getMethodSchema(methodName)) {
+      logger.warn("⚠️ Skipping method", {
+        method: methodName,
+        reason: "no schema in SCHEMA_REGISTRY",
+      });
+      return false;
+    }
+    if (!(methodName in METHOD_SAFETY) && !EXPOSE_UNCLASSIFIED) {
+      logger.warn("⚠️ Skipping method", {
+        method: methodName,
+        reason:
+          "not classified in METHOD_SAFETY (treated as CRITICAL). Set EXPOSE_UNCLASSIFIED=true to expose it.",
+      });
+      return false;
+    }
+
+    // Previewable methods disabled by default (not by an explicit deny rule)
+    // stay available in dry-run-only mode so admins can still inspect their
+    // impact.
+    const allowCheck = schools.isAllowed(methodName);
+    if (
+      !allowCheck.allowed &&
+      (allowCheck.explicit || !PREVIEWABLE_METHODS.has(methodName))
+    ) {
+      logger.warn("⚠️ Skipping method", {
+        method: methodName,
+        reason: allowCheck.reason,
+      });
+      return false;
+    }
+    return true;
+  });
+
+  logger.info("✅ Exposing dynamic Smartschool tools", {
+    tools: exposedMethods.length,
+  });
+  return exposedMethods;
+}
 
+/**
+ * Register the selected SmartschoolClient methods as MCP tools
+ */
+function registerDynamicTools(server: McpServer, methodNames: string[]) {
   methodNames.forEach((methodName) => {
+    const parameterSchema = generateParameterSchema(methodName) ?? {};
     const context = (METHOD_CONTEXT as any)[methodName] || {
       description: `Execute ${methodName} on Smartschool API`,
       useCase: "API method execution",
@@ -567,14 +298,11 @@ function registerDynamicTools() {
       smartschoolContext: "",
     };
 
-    // Check if method is allowed
-    const allowCheck = isMethodAllowed(methodName);
-    if (!allowCheck.allowed) {
-      console.error(`⚠️ Skipping ${methodName}: ${allowCheck.reason}`);
-      return;
-    }
+    const allowCheck = schools.isAllowed(methodName);
+    const previewable = PREVIEWABLE_METHODS.has(methodName);
+    const listMethod = isListMethod(methodName);
 
-    const safetyLevel = METHOD_SAFETY[methodName] || SAFETY_LEVELS.MODERATE;
+    const safetyLevel = getSafetyLevel(methodName);
     const safetyWarning = getSafetyWarning(methodName, safetyLevel);
 
     // Enhanced description for AI with Smartschool domain knowledge and safety info
@@ -587,6 +315,9 @@ ${context.examples.length > 0 ? `💡 Examples: ${context.examples.join(", ")}`
 ${context.smartschoolContext ? `\n🏫 Smartschool Context: ${context.smartschoolContext}` : ""}
 
 ${safetyWarning ? `\n${safetyWarning}` : ""}
+${previewable ? "\n🔍 Dry run: pass dryRun: true to get an impact preview without changing anything." : ""}
+${listMethod ? "\n📄 Large lists: use fields, filter, limit (default 50) and cursor to get only what you need, one page at a time." : ""}
+${!allowCheck.allowed ? `🔒 Preview only: ${allowCheck.reason} Only dryRun: true calls are accepted.` : ""}
 
 🔧 Domain Knowledge:
 • Smartschool is a Belgian school management system
@@ -598,105 +329,320 @@ ${safetyWarning ? `\n${safetyWarning}` : ""}
 This method interacts with the Smartschool school management system for managing students, teachers, classes, attendance, communications, and administrative tasks.
     `.trim();
 
-    const parameterSchema = generateParameterSchema(methodName);
-
-    server.tool(
+    server.registerTool(
       `smartschool-${methodName}`,
-      enhancedDescription,
-      parameterSchema,
-      async (params) => {
+      {
+        description: enhancedDescription,
+        inputSchema: parameterSchema,
+        outputSchema: getToolOutputSchema(methodName).shape,
+      },
+      async ({ school: schoolName, ...params }, extra) => {
+        const startedAt = Date.now();
+        const school = schools.resolve(schoolName);
+        const audit = async (
+          outcome: "success" | "error" | "blocked",
+          error?: string,
+        ) => {
+          if (safetyLevel === SAFETY_LEVELS.SAFE) return;
+          await recordAuditEntry({
+            actor: extra.authInfo?.clientId,
+            school: "error" in school ? schoolName : school.name,
+            method: methodName,
+            safetyLevel,
+            params,
+            outcome,
+            error,
+            durationMs: Date.now() - startedAt,
+          });
+        };
+
+        if ("error" in school) {
+          return statusOutput(methodName, "error", school.error);
+        }
+        const { call: callClient, userIndex } = school;
+        const schoolCheck = school.isAllowed(methodName);
+
         try {
-          console.error(
-            `🚀 Executing ${methodName} with params:`,
-            JSON.stringify(params, null, 2),
-          );
+          // Sensitive parameters and large blobs are redacted by the logger
+          logger.info("🚀 Executing method", {
+            method: methodName,
+            ...(schools.multiple ? { school: school.name } : {}),
+            params,
+          });
+
+          // Check the policy before anything reaches Smartschool, including
+          // the user index below
+          if (
+            !schoolCheck.allowed &&
+            !(previewable && params.dryRun === true)
+          ) {
+            const reason = `${schoolCheck.reason}\n\nOnly dryRun: true is accepted for ${methodName}.`;
+            await audit("blocked", reason);
+            return statusOutput(methodName, "error", reason);
+          }
 
-          // Smart parameter processing for common patterns
+          // Resolve a person's name to a username via the user index; never
+          // guess, ask for disambiguation instead
           if (
-            params.userIdentifier &&
-            typeof params.userIdentifier === "string"
+            typeof params.userIdentifier === "string" &&
+            params.userIdentifier.includes(" ") &&
+            !params.userIdentifier.includes(".")
           ) {
-            // If userIdentifier looks like a full name, suggest username format
-            if (
-              params.userIdentifier.includes(" ") &&
-              !params.userIdentifier.includes(".")
-            ) {
-              const [firstName, ...lastNameParts] =
-                params.userIdentifier.split(" ");
-              const lastName = lastNameParts.join(" ");
-              const suggestedUsername =
-                SMARTSCHOOL_CONVENTIONS.generateUsername(firstName, lastName);
-              console.error(
-                `💡 Tip: Name "${params.userIdentifier}" detected. Suggested username: "${suggestedUsername}"`,
+            // The index lists every account, so it needs its own permission
+            if (!school.isAllowed("getAllAccountsExtended").allowed) {
+              return statusOutput(
+                methodName,
+                "error",
+                `🔎 "${params.userIdentifier}" looks like a name, but names cannot be looked up: the policy does not allow getAllAccountsExtended. Pass the exact username.`,
+              );
+            }
+            const resolution = await resolveUserName(
+              userIndex,
+              params.userIdentifier,
+            );
+            if (!resolution.resolved) {
+              const candidates = resolution.candidates
+                .map(
+                  (candidate) =>
+                    `• ${candidate.username}: ${candidate.firstName} ${candidate.lastName}${candidate.className ? ` (${candidate.className})` : ""} score ${candidate.score}`,
+                )
+                .join("\n");
+              return statusOutput(
+                methodName,
+                "error",
+                candidates
+                  ? `🔎 "${params.userIdentifier}" is ambiguous. Ask the user which account is meant and call smartschool-${methodName} again with that username:\n${candidates}`
+                  : `🔎 No account matches "${params.userIdentifier}". Use smartschool-findUser with part of the name to search.`,
               );
-              params.userIdentifier = suggestedUsername;
             }
+            logger.info("💡 Resolved name to username", {
+              name: params.userIdentifier,
+              username: resolution.username,
+            });
+            params.userIdentifier = resolution.username;
           }
 
-          // Call the method dynamically
-          const result = await (smartschoolClient as any)[methodName](params);
+          const { dryRun, confirmationToken, ...methodParams } = params;
+          const dryRunOnly = previewable && dryRun === true;
+
+          // Enforce the policy again with the parameters, before any preview.
+          // A dry run of a method the policy does not allow is still checked
+          // against its parameter constraints.
+          const callCheck =
+            dryRunOnly && !schoolCheck.allowed
+              ? checkParamConstraints(school.policy, methodName, methodParams)
+              : school.authorize(methodName, methodParams);
+          if (!callCheck.allowed) {
+            const reason = callCheck.reason ?? "🚫 Blocked by policy.";
+            await audit("blocked", reason);
+            return statusOutput(methodName, "error", reason);
+          }
+
+          if (dryRunOnly) {
+            const preview = await buildImpactPreview(
+              callClient,
+              methodName,
+              methodParams,
+              school.authorize,
+            );
+            return statusOutput(
+              methodName,
+              "dry_run",
+              `🔍 Dry run for ${methodName}: nothing was changed.\n${preview.summary}\n\n${JSON.stringify(preview.details, null, 2)}`,
+              { preview },
+            );
+          }
+
+          if (requiresConfirmation(methodName)) {
+            // Bind the token to the school and the caller as well as the
+            // parameters
+            const tokenParams = { ...methodParams, school: school.name };
+            if (!confirmationToken) {
+              const { token, expiresAt } = issueConfirmationToken(
+                methodName,
+                tokenParams,
+                extra.authInfo?.clientId,
+              );
+              const preview = previewable
+                ? await buildImpactPreview(
+                    callClient,
+                    methodName,
+                    methodParams,
+                    school.authorize,
+                  )
+                : undefined;
 
-          // Handle different response types with enhanced formatting
-          if (result === true) {
-            return {
-              content: [
+              return statusOutput(
+                methodName,
+                "confirmation_required",
+                `⏸️ ${methodName} has NOT been executed yet.\n\n${safetyWarning}\n\n📋 Parameters:\n${JSON.stringify(redactParams(methodParams), null, 2)}${preview ? `\n\n🔍 Impact: ${preview.summary}\n${JSON.stringify(preview.details, null, 2)}` : ""}\n\nTo execute, ask the user to approve, then call smartschool-${methodName} again with the identical parameters plus confirmationToken: "${token}" (single use, expires ${expiresAt.toISOString()}).`,
                 {
-                  type: "text" as const,
-                  text: `✅ ${methodName} completed successfully`,
+                  confirmationToken: token,
+                  expiresAt: expiresAt.toISOString(),
+                  ...(preview ? { preview } : {}),
                 },
-              ],
-            };
-          } else if (typeof result === "object" && result !== null) {
-            let formattedResult = JSON.stringify(result, null, 2);
-
-            // Add absence code explanations if this is an absence-related response
-            if (methodName.includes("Absent") && typeof result === "object") {
-              const resultStr = JSON.stringify(result);
-              const foundCodes = Object.keys(
-                SMARTSCHOOL_CONVENTIONS.absenceCodes,
-              ).filter(
-                (code) => code !== "null" && resultStr.includes(`"${code}"`),
               );
+            }
 
-              if (foundCodes.length > 0) {
-                const explanations = foundCodes
-                  .map(
-                    (code) =>
-                      `• '${code}': ${SMARTSCHOOL_CONVENTIONS.absenceCodes[code]}`,
-                  )
-                  .join("\n");
-
-                formattedResult += `\n\n📚 Absence Code Explanations:\n${explanations}`;
-              }
+            const confirmation = consumeConfirmationToken(
+              confirmationToken,
+              methodName,
+              tokenParams,
+              extra.authInfo?.clientId,
+            );
+            if (!confirmation.valid) {
+              const reason = `🚫 Operation blocked: ${confirmation.reason}\n\nCall smartschool-${methodName} without confirmationToken to receive a new one.`;
+              await audit("blocked", reason);
+              return statusOutput(methodName, "error", reason);
             }
+          }
 
-            return {
-              content: [
-                {
-                  type: "text" as const,
-                  text: `📊 ${methodName} result:\n${formattedResult}`,
-                },
-              ],
-            };
-          } else {
-            return {
-              content: [
-                {
-                  type: "text" as const,
-                  text: `📝 ${methodName} returned: ${result}`,
-                },
-              ],
-            };
+          params = methodParams;
+          await assertAuditWritable(methodName);
+
+          // Fields, filter and paging are applied here, not by Smartschool
+          const listing = listMethod ? splitListOptions(params) : undefined;
+          if (listing) params = listing.params;
+
+          // Snapshot the state first so reversible changes can be undone
+          const undo = UNDOABLE_METHODS.has(methodName)
+            ? await prepareUndo(callClient, methodName, params)
+            : undefined;
+
+          // Photos and attachments are read and encoded only now, so the
+          // audit trail records their paths rather than their contents
+          const callParams =
+            methodName === "setAccountPhoto"
+              ? await preparePhotoUpload(params)
+              : methodName === "sendMsg"
+                ? (await prepareMessage(params)).params
+                : params;
+
+          // Call the method dynamically
+          const result = await callClient(methodName, callParams);
+          await audit("success");
+          logger.debug("✅ Method completed", {
+            method: methodName,
+            durationMs: Date.now() - startedAt,
+          });
+
+          const undoId = undo
+            ? await recordUndo(undo, extra.authInfo?.clientId, school.name)
+            : undefined;
+
+          if (methodName === "getAccountPhoto") {
+            return await formatPhotoResult(methodName, result);
+          }
+
+          // Redact before paging, so filters cannot probe hidden fields
+          const { value, redacted } = redact(result);
+          const redaction = {
+            profile: redactionProfile.name,
+            fields: redacted,
+          };
+          if (listing) {
+            const { items, page } = paginate(
+              methodName,
+              params,
+              value,
+              listing.options,
+            );
+            return formatMethodResult(methodName, items, { page, redaction });
           }
+          return formatMethodResult(methodName, value, { undoId, redaction });
         } catch (error) {
+          await audit(
+            "error",
+            error instanceof Error ? error.message : String(error),
+          );
           return handleError(error, methodName);
         }
       },
     );
   });
+}
+
+/**
+ * Register the read-only tool for querying the audit trail
+ */
+function registerAuditTool(server: McpServer) {
+  server.tool(
+    "smartschool-audit-log",
+    `
+Query the audit trail of Smartschool modifications made through this server
+
+🎯 Use Case: Answer "who changed what in Smartschool, and when?"
+📂 Category: Auditing
+💡 Examples: Show all saveUserToClass calls this week, List failed operations since yesterday
+
+Every call to a MODERATE, DESTRUCTIVE or CRITICAL method is recorded with its timestamp, actor, school, method, redacted parameters, outcome and error text. Entries are returned most recent first. Passwords, photos and attachments are never stored. Over HTTP, only your own entries are returned unless you are an audit admin.
+    `.trim(),
+    AuditLogQuerySchema.shape,
+    async (query, extra) => {
+      const clientId = extra.authInfo?.clientId;
+      try {
+        const entries = await queryAuditLog(
+          isAuditAdmin(clientId) ? query : { ...query, actor: clientId },
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `📜 ${entries.length} audit entries from ${AUDIT_LOG_FILE}:\n${JSON.stringify(entries, null, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError(error, "audit-log");
+      }
+    },
+  );
+}
 
-  console.error(
-    `✅ Registered ${methodNames.length} dynamic Smartschool tools`,
+/**
+ * Register the user search tool backed by the user index
+ */
+function registerFindUserTool(server: McpServer) {
+  server.tool(
+    "smartschool-findUser",
+    `
+Search for users by name, first name, username, internal number or class
+
+🎯 Use Case: When you only have a person's name and need their exact username
+📂 Category: User Information
+💡 Examples: Find 'Jan Van den Broeck', Which 'Emma' is in class 3B?, Look up internal number 12345
+
+Returns ranked candidates (score 0-1). Matching ignores accents, case and spacing, and tolerates typos. When several candidates are plausible, ask the user which one is meant instead of picking one. The index is built from getAllAccountsExtended and refreshed periodically.
+    `.trim(),
+    { ...FindUserSchema.shape, ...schools.param },
+    async ({ school: schoolName, query, class: className, role, limit }) => {
+      const school = schools.resolve(schoolName);
+      if ("error" in school) return handleError(school.error, "findUser");
+      const check = school.isAllowed("getAllAccountsExtended");
+      if (!check.allowed) {
+        return handleError(check.reason ?? "🚫 Blocked by policy.", "findUser");
+      }
+      try {
+        const candidates = await school.userIndex.search(query, {
+          className,
+          role,
+          limit,
+        });
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                candidates.length > 0
+                  ? `🔎 ${candidates.length} candidate(s) for "${query}":\n${JSON.stringify(redact(candidates).value, null, 2)}`
+                  : `🔎 No users match "${query}"`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError(error, "findUser");
+      }
+    },
   );
 }
 
@@ -704,49 +650,106 @@ This method interacts with the Smartschool school management system for managing
  * Main function
  */
 async function main() {
-  console.error("🏫 Starting Dynamic Smartschool MCP Server...");
-  console.error(`🛡️ Safety Settings:`);
-  console.error(
-    `   - Destructive operations: ${ALLOW_DESTRUCTIVE ? "✅ ENABLED" : "🚫 DISABLED"}`,
-  );
-  console.error(
-    `   - Confirmation required: ${REQUIRE_CONFIRMATION ? "✅ YES" : "❌ NO"}`,
-  );
-  console.error(
-    `   - Set ALLOW_DESTRUCTIVE=true to enable destructive operations`,
-  );
-  console.error(
-    `   - Set REQUIRE_CONFIRMATION=false to disable confirmation prompts`,
+  logger.info("🏫 Starting Dynamic Smartschool MCP Server...");
+  logger.info("🛡️ Safety settings", {
+    schools: schools.all.map((school) => ({
+      name: school.name,
+      ...(school === schools.defaultSchool ? { default: true } : {}),
+      policy: school.policy.source,
+      policyRules: school.policy.rules.length,
+      parameterConstraints: school.policy.constraints.length,
+    })),
+    confirmationRequired: REQUIRE_CONFIRMATION,
+    confirmationTtlSeconds: CONFIRMATION_TTL_SECONDS,
+    auditLog: AUDIT_LOG_FILE,
+    redactionProfile: redactionProfile.name,
+    redactionPatterns: {
+      dropped: redactionProfile.drop.length,
+      masked: redactionProfile.mask.length,
+    },
+    readCache: CACHE_ENABLED ? (CACHE_FILE ?? "in memory") : false,
+    logLevel: LOG_LEVEL,
+    ...(LOG_FILE ? { logFile: LOG_FILE } : {}),
+  });
+  if (POLICY_FILE && ALLOW_DESTRUCTIVE) {
+    logger.warn("⚠️ ALLOW_DESTRUCTIVE is ignored when POLICY_FILE is set");
+  }
+  logger.debug(
+    "💡 Set ALLOW_DESTRUCTIVE=true to enable destructive operations, REQUIRE_CONFIRMATION=false to disable confirmation prompts",
   );
 
-  // Register all discovered tools
-  registerDynamicTools();
+  // Discover tools once; every MCP server instance registers the same set
+  const exposedMethods = discoverExposedMethods();
+  const createMcpServer = () => {
+    const server = new McpServer({
+      name: "smartschool-dynamic",
+      version: "1.0.0",
+    });
+    registerDynamicTools(server, exposedMethods);
+    registerAuditTool(server);
+    registerSchoolsTool(server, schools);
+    if (schools.isAllowed("getAllAccountsExtended").allowed) {
+      registerFindUserTool(server);
+    }
+    registerAttendanceTools(server, schools);
+    registerMessagingTools(server, schools);
+    registerImportTools(server, schools);
+    registerRolloverTools(server, schools);
+    registerUndoTool(server, schools);
+    registerResources(server, schools);
+    registerPrompts(
+      server,
+      (methodName) => schools.isAllowed(methodName).allowed,
+    );
+    return server;
+  };
 
-  // Start server
-  const transport = new StdioServerTransport();
   try {
-    await server.connect(transport);
-    console.error("🚀 Dynamic Smartschool MCP Server running on stdio");
-    console.error(`📚 Server initialized successfully`);
+    let close: () => Promise<void>;
+
+    if (MCP_TRANSPORT === "http") {
+      const tokens = loadBearerTokens();
+      if (tokens.size === 0) {
+        logger.error(
+          "🚫 HTTP transport requires bearer tokens. Set MCP_HTTP_TOKENS or MCP_HTTP_TOKENS_FILE.",
+        );
+        process.exit(1);
+      }
+
+      const httpServer = await startHttpServer(createMcpServer, tokens);
+      close = () => httpServer.close();
+      logger.info("🚀 Dynamic Smartschool MCP Server running", {
+        transport: "http",
+        url: `http://${MCP_HTTP_HOST}:${MCP_HTTP_PORT}/mcp`,
+        bearerTokens: tokens.size,
+      });
+    } else {
+      const server = createMcpServer();
+      await server.connect(new StdioServerTransport());
+      close = () => server.close();
+      logger.info("🚀 Dynamic Smartschool MCP Server running", {
+        transport: "stdio",
+      });
+    }
+    logger.info("📚 Server initialized successfully");
 
     // Keep server running
     await new Promise<void>((resolve) => {
-      process.on("SIGINT", () => {
-        console.error("🛑 Shutting down gracefully...");
-        resolve();
-      });
-      process.on("SIGTERM", () => {
-        console.error("🛑 Shutting down gracefully...");
-        resolve();
-      });
+      process.on("SIGINT", () => resolve());
+      process.on("SIGTERM", () => resolve());
     });
+
+    logger.info("🛑 Shutting down gracefully...");
+    await close();
+    await Promise.all(schools.all.map((school) => school.cache?.flush()));
+    process.exit(0);
   } catch (error) {
-    console.error("💥 Fatal error:", error);
+    logger.error("💥 Fatal error", { error });
     process.exit(1);
   }
 }
 
 main().catch((error) => {
-  console.error("💥 Fatal error in main():", error);
+  logger.error("💥 Fatal error in main()", { error });
   process.exit(1);
 });
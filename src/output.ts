@@ -0,0 +1,190 @@
+import { SMARTSCHOOL_CONVENTIONS } from "./conventions.js";
+import { logger } from "./logger.js";
+import { describeAccount, parseJsonResult } from "./records.js";
+import { OUTPUT_SCHEMA_REGISTRY, type ToolOutput } from "./schemas.js";
+
+/**
+ * @file Structured output for the method tools
+ *
+ * A method tool returns the Smartschool response as `structuredContent`
+ * (validated against its output schema in OUTPUT_SCHEMA_REGISTRY) and a short
+ * text rendering for people: counts, one line per record and the meaning of
+ * the absence codes it contains. The full data is only in the structured part.
+ */
+
+const MAX_TEXT_LINES = 20;
+
+type ToolContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string };
+
+export interface ToolOutputResult {
+  [key: string]: unknown;
+  content: ToolContent[];
+  structuredContent: ToolOutput;
+  isError?: boolean;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function summarizeValue(value: unknown): string {
+  if (isEmpty(value)) return "—";
+  if (Array.isArray(value)) return `[${value.length} item(s)]`;
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if ("am" in record || "pm" in record) {
+      return `am ${isEmpty(record.am) ? "—" : record.am}, pm ${isEmpty(record.pm) ? "—" : record.pm}`;
+    }
+    return `{${Object.keys(record).length} field(s)}`;
+  }
+  return String(value);
+}
+
+function summarizeRecord(record: unknown): string {
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    return summarizeValue(record);
+  }
+  const account = describeAccount(record as Record<string, any>);
+  if (account.username) {
+    const name = `${account.firstName} ${account.lastName}`.trim();
+    const extra = [
+      account.role,
+      (record as Record<string, any>).klasnaam,
+    ].filter((value) => !isEmpty(value));
+    return `${account.username}${name ? ` — ${name}` : ""}${extra.length > 0 ? ` (${extra.join(", ")})` : ""}`;
+  }
+  return Object.entries(record)
+    .filter(([, value]) => !isEmpty(value) && typeof value !== "object")
+    .slice(0, 4)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(", ");
+}
+
+function limitLines(lines: string[]): string[] {
+  if (lines.length <= MAX_TEXT_LINES) return lines;
+  return [
+    ...lines.slice(0, MAX_TEXT_LINES),
+    `… ${lines.length - MAX_TEXT_LINES} more in the structured result`,
+  ];
+}
+
+/**
+ * Explain the absence codes that occur in an absence-related result
+ */
+function absenceExplanations(methodName: string, value: unknown): string {
+  if (!methodName.includes("Absent") || typeof value !== "object") return "";
+
+  const resultStr = JSON.stringify(value);
+  const foundCodes = Object.keys(SMARTSCHOOL_CONVENTIONS.absenceCodes).filter(
+    (code) => code !== "null" && resultStr.includes(`"${code}"`),
+  );
+  if (foundCodes.length === 0) return "";
+
+  const explanations = foundCodes
+    .map((code) => `• '${code}': ${SMARTSCHOOL_CONVENTIONS.absenceCodes[code]}`)
+    .join("\n");
+  return `\n\n📚 Absence Code Explanations:\n${explanations}`;
+}
+
+function pageNote(page: NonNullable<ToolOutput["page"]>): string {
+  const range =
+    page.returned > 0
+      ? `${page.offset + 1}-${page.offset + page.returned}`
+      : "none";
+  const filtered =
+    page.matched < page.total ? ` (${page.total} before filtering)` : "";
+  return `\n📄 Records ${range} of ${page.matched}${filtered}.${page.nextCursor ? ` Next page: repeat the call with cursor: "${page.nextCursor}"` : ""}`;
+}
+
+function renderText(methodName: string, value: unknown): string {
+  if (value === true) return `✅ ${methodName} completed successfully`;
+
+  if (Array.isArray(value)) {
+    const lines = limitLines(value.map((item) => `• ${summarizeRecord(item)}`));
+    return `📊 ${methodName}: ${value.length} record(s)${lines.length > 0 ? `\n${lines.join("\n")}` : ""}`;
+  }
+
+  if (value && typeof value === "object") {
+    const lines = limitLines(
+      Object.entries(value)
+        .filter(([, field]) => !isEmpty(field))
+        .map(([key, field]) => `• ${key}: ${summarizeValue(field)}`),
+    );
+    return `📊 ${methodName} result:\n${lines.join("\n")}`;
+  }
+
+  return `📝 ${methodName} returned: ${value}`;
+}
+
+/**
+ * Build the tool response for a successful method call
+ */
+export function formatMethodResult(
+  methodName: string,
+  result: unknown,
+  {
+    undoId,
+    page,
+    redaction,
+  }: Pick<ToolOutput, "undoId" | "page" | "redaction"> = {},
+): ToolOutputResult {
+  const value = parseJsonResult(result);
+  const structured: ToolOutput = { method: methodName, status: "success" };
+
+  const schema = OUTPUT_SCHEMA_REGISTRY[methodName];
+  const validation = schema?.safeParse(value);
+  if (validation && !validation.success) {
+    logger.warn("⚠️ Result does not match its output schema", {
+      method: methodName,
+      issues: validation.error.issues,
+    });
+    structured.unvalidatedResult = value;
+  } else {
+    structured.result = value;
+  }
+  if (undoId) structured.undoId = undoId;
+  if (page) structured.page = page;
+  if (redaction && redaction.fields > 0) structured.redaction = redaction;
+
+  const redactionNote =
+    redaction && redaction.fields > 0
+      ? `\n🔒 ${redaction.fields} field(s) hidden by the '${redaction.profile}' redaction profile`
+      : "";
+  const undoNote = undoId
+    ? `\n↩️ Can be reverted with smartschool-undo (id ${undoId})`
+    : "";
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `${renderText(methodName, value)}${page ? pageNote(page) : ""}${absenceExplanations(methodName, value)}${redactionNote}${undoNote}`,
+      },
+    ],
+    structuredContent: structured,
+  };
+}
+
+/**
+ * Build a tool response with a status other than success; error responses
+ * are flagged with isError
+ */
+export function statusOutput(
+  methodName: string,
+  status: Exclude<ToolOutput["status"], "success">,
+  text: string,
+  fields: Partial<ToolOutput> = {},
+): ToolOutputResult {
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: {
+      method: methodName,
+      status,
+      ...(status === "error" ? { message: text } : {}),
+      ...fields,
+    },
+    ...(status === "error" ? { isError: true } : {}),
+  };
+}
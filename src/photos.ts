@@ -0,0 +1,171 @@
+import sharp, { type Metadata } from "sharp";
+import { logger } from "./logger.js";
+import { formatMethodResult, type ToolOutputResult } from "./output.js";
+import { parseJsonResult } from "./records.js";
+import type { FileResource } from "./schemas.js";
+import { readUpload } from "./uploads.js";
+
+/**
+ * @file Account photos as MCP image content and photo uploads from files
+ *
+ * getAccountPhoto returns the photo as `image` content with its detected MIME
+ * type instead of a base64 string in the text. setAccountPhoto takes a local
+ * path or an MCP resource (or base64, as before); uploads are checked and
+ * normalized before they are sent: the format must be a known image format,
+ * the file at most PHOTO_MAX_UPLOAD_BYTES and both sides at least
+ * PHOTO_MIN_SIDE pixels. The image is rotated upright, cropped to a centred
+ * square, scaled down to at most PHOTO_SIZE pixels and sent as JPEG.
+ */
+
+const PHOTO_MAX_UPLOAD_BYTES =
+  Number(process.env.PHOTO_MAX_UPLOAD_BYTES) || 10 * 1024 * 1024;
+const PHOTO_MIN_SIDE = Number(process.env.PHOTO_MIN_SIDE) || 100;
+const PHOTO_SIZE = Number(process.env.PHOTO_SIZE) || 400;
+const PHOTO_JPEG_QUALITY = 85;
+
+/** Formats accepted for upload, with the MIME type reported on download */
+const PHOTO_FORMATS: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  tiff: "image/tiff",
+  heif: "image/heif",
+  avif: "image/avif",
+};
+
+function mimeTypeOf(format: string | undefined): string | undefined {
+  return format ? PHOTO_FORMATS[format] : undefined;
+}
+
+/** Strip a data: URL prefix from base64 data */
+function decodeBase64(value: string): Buffer {
+  return Buffer.from(value.replace(/^data:[^,]*,/, ""), "base64");
+}
+
+/**
+ * Check an uploaded image and turn it into the square JPEG sent to
+ * Smartschool
+ */
+export async function normalizePhoto(
+  data: Buffer,
+  name = "photo",
+): Promise<{ data: Buffer; width: number; height: number }> {
+  let metadata: Metadata;
+  try {
+    metadata = await sharp(data).metadata();
+  } catch {
+    throw new Error(`🖼️ ${name} is not an image Smartschool can use.`);
+  }
+  if (!mimeTypeOf(metadata.format)) {
+    throw new Error(
+      `🖼️ ${name} is ${metadata.format ?? "an unknown format"}; use ${Object.keys(PHOTO_FORMATS).join(", ")}.`,
+    );
+  }
+
+  // EXIF orientations 5-8 swap width and height
+  const upright = (metadata.orientation ?? 1) >= 5;
+  const width = (upright ? metadata.height : metadata.width) ?? 0;
+  const height = (upright ? metadata.width : metadata.height) ?? 0;
+  if (Math.min(width, height) < PHOTO_MIN_SIDE) {
+    throw new Error(
+      `🖼️ ${name} is ${width}×${height} pixels; a photo needs at least ${PHOTO_MIN_SIDE}×${PHOTO_MIN_SIDE}.`,
+    );
+  }
+
+  const side = Math.min(PHOTO_SIZE, width, height);
+  const normalized = await sharp(data)
+    .rotate()
+    .resize(side, side, { fit: "cover", position: "centre" })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: PHOTO_JPEG_QUALITY })
+    .toBuffer();
+  return { data: normalized, width: side, height: side };
+}
+
+/**
+ * Replace photoPath or photoResource by the normalized photo as base64.
+ * An empty photo (removal) is passed on unchanged.
+ */
+export async function preparePhotoUpload(
+  params: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const { photoPath, photoResource, photo, ...rest } = params;
+  const sources = [photoPath, photoResource, photo].filter(
+    (source) => source !== undefined,
+  );
+  if (sources.length !== 1) {
+    throw new Error(
+      "🖼️ Pass exactly one of photoPath, photoResource or photo (base64; empty string removes the photo).",
+    );
+  }
+  if (photo === "") return { ...rest, photo };
+
+  const upload =
+    typeof photo === "string"
+      ? { name: "photo", data: decodeBase64(photo) }
+      : await readUpload(
+          {
+            path: photoPath as string | undefined,
+            resource: photoResource as FileResource | undefined,
+          },
+          PHOTO_MAX_UPLOAD_BYTES,
+        );
+  if (upload.data.length > PHOTO_MAX_UPLOAD_BYTES) {
+    throw new Error(
+      `📦 The photo is larger than the ${Math.round(PHOTO_MAX_UPLOAD_BYTES / 1024 / 1024)} MB limit.`,
+    );
+  }
+
+  const normalized = await normalizePhoto(upload.data, upload.name);
+  logger.info("🖼️ Normalized photo upload", {
+    name: upload.name,
+    bytes: upload.data.length,
+    normalizedBytes: normalized.data.length,
+    side: normalized.width,
+  });
+  return { ...rest, photo: normalized.data.toString("base64") };
+}
+
+/**
+ * Build the tool response for getAccountPhoto: the photo as image content,
+ * its type and size as the structured result
+ */
+export async function formatPhotoResult(
+  methodName: string,
+  result: unknown,
+): Promise<ToolOutputResult> {
+  const value = parseJsonResult(result);
+  if (typeof value !== "string") return formatMethodResult(methodName, value);
+
+  const data = decodeBase64(value);
+  if (data.length === 0) {
+    const output = formatMethodResult(methodName, null);
+    output.content = [{ type: "text", text: "📷 This account has no photo" }];
+    return output;
+  }
+
+  let metadata: Metadata | undefined;
+  try {
+    metadata = await sharp(data).metadata();
+  } catch (error) {
+    logger.warn("⚠️ Account photo is not a readable image", { error });
+  }
+  const mimeType = mimeTypeOf(metadata?.format) ?? "image/jpeg";
+  const photo = {
+    mimeType,
+    bytes: data.length,
+    ...(metadata?.width ? { width: metadata.width } : {}),
+    ...(metadata?.height ? { height: metadata.height } : {}),
+  };
+
+  const output = formatMethodResult(methodName, photo);
+  output.content = [
+    {
+      type: "text",
+      text: `📷 ${methodName}: ${mimeType}${photo.width ? `, ${photo.width}×${photo.height} pixels` : ""}, ${Math.ceil(photo.bytes / 1024)} KB`,
+    },
+    { type: "image", data: data.toString("base64"), mimeType },
+  ];
+  return output;
+}
@@ -0,0 +1,198 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { SAFETY_LEVELS, type SafetyLevel } from "./safety.js";
+
+/**
+ * @file Per-method access policy
+ *
+ * A policy decides which Smartschool methods are exposed and which parameter
+ * values they accept. It is loaded once at startup from POLICY_FILE, or
+ * derived from ALLOW_DESTRUCTIVE when no policy file is configured.
+ *
+ * Evaluation order:
+ * 1. Any matching "deny" rule blocks the method
+ * 2. Otherwise any matching "allow" rule permits it
+ * 3. Otherwise the default for the method's safety level applies
+ */
+
+const SafetyLevelSchema = z.enum([
+  SAFETY_LEVELS.SAFE,
+  SAFETY_LEVELS.MODERATE,
+  SAFETY_LEVELS.DESTRUCTIVE,
+  SAFETY_LEVELS.CRITICAL,
+]);
+
+const EffectSchema = z.enum(["allow", "deny"]);
+
+const PolicyRuleSchema = z
+  .object({
+    effect: EffectSchema,
+    methods: z.array(z.string()).optional(),
+    categories: z.array(z.string()).optional(),
+    safetyLevels: z.array(SafetyLevelSchema).optional(),
+    reason: z.string().optional(),
+  })
+  .refine(
+    (rule) => rule.methods || rule.categories || rule.safetyLevels,
+    "A rule needs at least one of 'methods', 'categories' or 'safetyLevels'",
+  );
+
+const ParamConstraintSchema = z.object({
+  method: z.string(),
+  param: z.string(),
+  allow: z.array(z.string()).min(1),
+  reason: z.string().optional(),
+});
+
+const PolicyFileSchema = z.object({
+  defaults: z
+    .object({
+      safe: EffectSchema.default("allow"),
+      moderate: EffectSchema.default("allow"),
+      destructive: EffectSchema.default("deny"),
+      critical: EffectSchema.default("deny"),
+    })
+    .default({}),
+  rules: z.array(PolicyRuleSchema).default([]),
+  constraints: z.array(ParamConstraintSchema).default([]),
+});
+
+export type Policy = z.infer<typeof PolicyFileSchema> & { source: string };
+
+export interface MethodDescriptor {
+  method: string;
+  category: string;
+  safetyLevel: SafetyLevel;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  /** True when the decision comes from an explicit rule, not a default */
+  explicit: boolean;
+}
+
+/**
+ * Load and validate a policy file. Throws on unreadable or invalid files so
+ * the server refuses to start with a policy it cannot enforce.
+ */
+export function loadPolicy(path: string): Policy {
+  const raw = JSON.parse(readFileSync(path, "utf8"));
+  const parsed = PolicyFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid policy file ${path}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+  return { ...parsed.data, source: path };
+}
+
+/**
+ * Policy equivalent to the ALLOW_DESTRUCTIVE switch
+ */
+export function createDefaultPolicy(allowDestructive: boolean): Policy {
+  const effect = allowDestructive ? "allow" : "deny";
+  return {
+    defaults: {
+      safe: "allow",
+      moderate: "allow",
+      destructive: effect,
+      critical: effect,
+    },
+    rules: [],
+    constraints: [],
+    source: "ALLOW_DESTRUCTIVE",
+  };
+}
+
+function ruleMatches(
+  rule: z.infer<typeof PolicyRuleSchema>,
+  descriptor: MethodDescriptor,
+): boolean {
+  return (
+    (!rule.methods || rule.methods.includes(descriptor.method)) &&
+    (!rule.categories || rule.categories.includes(descriptor.category)) &&
+    (!rule.safetyLevels || rule.safetyLevels.includes(descriptor.safetyLevel))
+  );
+}
+
+/**
+ * Decide whether a method may be exposed and executed
+ */
+export function evaluatePolicy(
+  policy: Policy,
+  descriptor: MethodDescriptor,
+): PolicyDecision {
+  const matching = policy.rules.filter((rule) => ruleMatches(rule, descriptor));
+
+  const deny = matching.find((rule) => rule.effect === "deny");
+  if (deny) {
+    return {
+      allowed: false,
+      reason: `🚫 ${descriptor.method} is denied by policy (${policy.source})${deny.reason ? `: ${deny.reason}` : "."}`,
+      explicit: true,
+    };
+  }
+
+  if (matching.some((rule) => rule.effect === "allow")) {
+    return { allowed: true, explicit: true };
+  }
+
+  if (policy.defaults[descriptor.safetyLevel] === "allow") {
+    return { allowed: true, explicit: false };
+  }
+
+  const level = descriptor.safetyLevel.toUpperCase();
+  return {
+    allowed: false,
+    reason:
+      policy.source === "ALLOW_DESTRUCTIVE"
+        ? `🚫 ${level} operations are disabled. Set ALLOW_DESTRUCTIVE=true to enable.`
+        : `🚫 ${level} operations are disabled by policy (${policy.source}). Add an allow rule for ${descriptor.method} to enable.`,
+    explicit: false,
+  };
+}
+
+/**
+ * Convert a glob pattern ('1*', '?A') into an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/**
+ * Check call parameters against the policy's parameter constraints
+ */
+export function checkParamConstraints(
+  policy: Policy,
+  method: string,
+  params: Record<string, unknown>,
+): { allowed: boolean; reason?: string } {
+  for (const constraint of policy.constraints) {
+    if (constraint.method !== method) continue;
+
+    const value = params[constraint.param];
+    if (value === undefined || value === null) continue;
+
+    const patterns = constraint.allow.map(globToRegExp);
+    const values = Array.isArray(value) ? value : [value];
+    const rejected = values.find(
+      (item) => !patterns.some((pattern) => pattern.test(String(item))),
+    );
+
+    if (rejected !== undefined) {
+      return {
+        allowed: false,
+        reason: `🚫 ${method}.${constraint.param} = '${rejected}' is not allowed by policy (${policy.source}); allowed values: ${constraint.allow.join(", ")}${constraint.reason ? `. ${constraint.reason}` : ""}`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,175 @@
+import type { ClientCall } from "./client.js";
+import { describeAttachments, prepareMessage } from "./compose.js";
+import { describeAccount, pickField, toRecords } from "./records.js";
+import type { AuthorizeCall } from "./schools.js";
+
+/**
+ * @file Dry-run impact previews for destructive and critical methods
+ *
+ * A preview is built exclusively from read methods and describes what a call
+ * would change (members removed, user deleted, classes overwritten) without
+ * writing anything to Smartschool. A message preview shows the message as it
+ * would be sent: the rendered HTML body and the checked attachments. Every
+ * read a preview makes must be allowed by the school's policy, parameter
+ * constraints included.
+ */
+
+export interface ImpactPreview {
+  method: string;
+  summary: string;
+  details: Record<string, unknown>;
+}
+
+type PreviewBuilder = (
+  call: ClientCall,
+  params: Record<string, any>,
+) => Promise<ImpactPreview>;
+
+/**
+ * Extract class codes from a saveClassList CSV payload. Uses the 'code'
+ * column when a header row is present, otherwise the saveClass field order
+ * (name, desc, code, ...).
+ */
+function parseClassListCodes(serializedList: string): string[] {
+  const rows = serializedList
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (rows.length === 0) return [];
+
+  const separator = rows[0].includes(";") ? ";" : ",";
+  const header = rows[0].split(separator).map((cell) => cell.trim());
+  const headerIndex = header.findIndex((cell) => cell.toLowerCase() === "code");
+  const codeIndex = headerIndex >= 0 ? headerIndex : 2;
+  const dataRows = headerIndex >= 0 ? rows.slice(1) : rows;
+
+  return dataRows
+    .map((row) => row.split(separator)[codeIndex]?.trim() ?? "")
+    .filter(Boolean);
+}
+
+const PREVIEW_BUILDERS: Record<string, PreviewBuilder> = {
+  clearGroup: async (call, params) => {
+    const members = toRecords(
+      await call("getAllAccounts", { code: params.group, recursive: "0" }),
+    );
+    return {
+      method: "clearGroup",
+      summary: `${members.length} member(s) would be removed from group '${params.group}'`,
+      details: {
+        group: params.group,
+        officialDate: params.officialDate ?? null,
+        membersToRemove: members.map(describeAccount),
+      },
+    };
+  },
+
+  delClass: async (call, params) => {
+    const members = toRecords(
+      await call("getAllAccounts", { code: params.code, recursive: "0" }),
+    );
+    return {
+      method: "delClass",
+      summary: `Class '${params.code}' would be permanently deleted; it currently has ${members.length} member(s)`,
+      details: {
+        class: params.code,
+        currentMembers: members.map(describeAccount),
+      },
+    };
+  },
+
+  delUser: async (call, params) => {
+    const user = await call("getUserDetails", {
+      userIdentifier: params.userIdentifier,
+    });
+    const account = describeAccount(user ?? {});
+    return {
+      method: "delUser",
+      summary: `User '${account.firstName} ${account.lastName}' (${account.username || params.userIdentifier}) would be permanently deleted`,
+      details: {
+        userIdentifier: params.userIdentifier,
+        officialDate: params.officialDate ?? null,
+        user: account,
+      },
+    };
+  },
+
+  unregisterStudent: async (call, params) => {
+    const user = await call("getUserDetails", {
+      userIdentifier: params.userIdentifier,
+    });
+    const account = describeAccount(user ?? {});
+    return {
+      method: "unregisterStudent",
+      summary: `Student '${account.firstName} ${account.lastName}' (${account.username || params.userIdentifier}) would be unregistered from the school`,
+      details: {
+        userIdentifier: params.userIdentifier,
+        officialDate: params.officialDate ?? null,
+        student: account,
+      },
+    };
+  },
+
+  sendMsg: async (_call, params) => {
+    const message = await prepareMessage(params);
+    const attachments = describeAttachments(message.attachments);
+    return {
+      method: "sendMsg",
+      summary: `Message '${params.title}' would be sent to ${params.userIdentifier}${params.coaccount ? ` (co-account ${params.coaccount})` : ""}${message.attachments.length > 0 ? ` with ${message.attachments.length} attachment(s):\n${attachments}` : ""}`,
+      details: {
+        userIdentifier: params.userIdentifier,
+        coaccount: params.coaccount ?? 0,
+        title: params.title,
+        body: message.params.body,
+        attachments: message.attachments,
+      },
+    };
+  },
+
+  saveClassList: async (call, params) => {
+    const submittedCodes = parseClassListCodes(params.serializedList ?? "");
+    const existingCodes = new Set(
+      toRecords(await call("getClassListJson", {}))
+        .map((record) => pickField(record, ["code", "Code", "klascode"]))
+        .filter(Boolean),
+    );
+
+    const overwritten = submittedCodes.filter((code) =>
+      existingCodes.has(code),
+    );
+    const created = submittedCodes.filter((code) => !existingCodes.has(code));
+
+    return {
+      method: "saveClassList",
+      summary: `${overwritten.length} existing class(es) would be overwritten and ${created.length} created`,
+      details: { overwritten, created },
+    };
+  },
+};
+
+export const PREVIEWABLE_METHODS = new Set(Object.keys(PREVIEW_BUILDERS));
+
+/**
+ * Build the impact preview for a method call without executing it
+ */
+export async function buildImpactPreview(
+  call: ClientCall,
+  methodName: string,
+  params: Record<string, any>,
+  authorize: AuthorizeCall,
+): Promise<ImpactPreview> {
+  const builder = PREVIEW_BUILDERS[methodName];
+  if (!builder) {
+    throw new Error(`No dry-run preview available for ${methodName}`);
+  }
+  const checkedCall: ClientCall = (readMethod, readParams, options) => {
+    const check = authorize(readMethod, readParams);
+    if (!check.allowed) {
+      throw new Error(
+        `🚫 The ${methodName} preview needs ${readMethod}, which is not allowed: ${check.reason ?? "blocked by policy."}`,
+      );
+    }
+    return call(readMethod, readParams, options);
+  };
+  return builder(checkedCall, params);
+}
@@ -0,0 +1,159 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { METHOD_CONTEXT } from "./context.js";
+import { SMARTSCHOOL_CONVENTIONS } from "./conventions.js";
+
+/**
+ * @file MCP prompt templates for recurring school-office workflows
+ *
+ * Each prompt spells out which smartschool-* tools to use and in what order,
+ * and embeds the relevant domain knowledge from METHOD_CONTEXT so the model
+ * does not have to rediscover it in every conversation.
+ */
+
+type IsAllowed = (methodName: string) => boolean;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function userMessage(text: string) {
+  return {
+    messages: [
+      { role: "user" as const, content: { type: "text" as const, text } },
+    ],
+  };
+}
+
+/**
+ * Reference a tool, flagging it when the active policy does not expose it
+ */
+function tool(methodName: string, isAllowed: IsAllowed): string {
+  return isAllowed(methodName)
+    ? `smartschool-${methodName}`
+    : `smartschool-${methodName} (⚠️ not available on this server: ask an administrator to perform this step)`;
+}
+
+function contextFor(methodName: string): string {
+  return METHOD_CONTEXT[methodName]?.smartschoolContext ?? "";
+}
+
+/**
+ * Register the school-office workflow prompts on an MCP server
+ */
+export function registerPrompts(server: McpServer, isAllowed: IsAllowed) {
+  server.prompt(
+    "morning-absence-check",
+    "Morning attendance check for one class: who is absent, late or unexplained today",
+    {
+      classCode: z.string().describe("Class code, e.g. '3B'"),
+      date: z
+        .string()
+        .optional()
+        .describe("Date in YYYY-MM-DD format (defaults to today)"),
+    },
+    ({ classCode, date }) =>
+      userMessage(
+        `
+Run the morning absence check for class ${classCode} on ${date || today()}.
+
+Steps:
+1. Call ${tool("getAbsentsByDateAndGroup", isAllowed)} with date '${date || today()}' and code '${classCode}'.
+2. Group the students by their morning (am) code: unexplained ('-'), late ('L'), excused (any other absence code) and present ('|').
+3. Report unexplained absences first, then late arrivals, then excused absences with the meaning of each code.
+4. Suggest follow-up for unexplained absences (for example a message to the parents with the "parent-absence-message" workflow), but do not send anything.
+
+${contextFor("getAbsents")}
+      `.trim(),
+      ),
+  );
+
+  server.prompt(
+    "parent-absence-message",
+    "Draft a message to the parents of a student about unexplained absences",
+    {
+      student: z.string().describe("Username of the student, e.g. 'john.doe'"),
+      schoolYear: z
+        .string()
+        .optional()
+        .describe("School year as starting year (defaults to the current one)"),
+    },
+    ({ student, schoolYear }) =>
+      userMessage(
+        `
+Draft a message to the parents of ${student} about unexplained absences in school year ${SMARTSCHOOL_CONVENTIONS.schoolYearFormat(schoolYear || SMARTSCHOOL_CONVENTIONS.currentSchoolYear())}.
+
+Steps:
+1. Call ${tool("getUserDetails", isAllowed)} for '${student}' to confirm the student's name, class and which co-accounts (parents/guardians) exist.
+2. Call ${tool("getAbsents", isAllowed)} with userIdentifier '${student}' and schoolYear '${schoolYear || SMARTSCHOOL_CONVENTIONS.currentSchoolYear()}'.
+3. List every half-day with code '-' (unexplained), grouped by date.
+4. Draft a short, polite message (in Dutch unless the user asks otherwise) with a Markdown body (bodyFormat 'markdown') that lists those dates and asks the parents to provide a justification.
+5. Show the draft and the recipients (co-account 1 and/or 2) and wait for explicit approval.
+6. Only after approval, send it with ${tool("sendMsg", isAllowed)}: once with coaccount 1 and, if it exists, once with coaccount 2.
+
+${contextFor("sendMsg")}
+      `.trim(),
+      ),
+  );
+
+  server.prompt(
+    "onboard-student",
+    "Create a new student account and place the student in a class",
+    {
+      firstName: z.string().describe("First name of the student"),
+      lastName: z.string().describe("Last name of the student"),
+      classCode: z.string().describe("Class code to enrol the student in"),
+      officialDate: z
+        .string()
+        .optional()
+        .describe(
+          "Official start date in YYYY-MM-DD format (defaults to today)",
+        ),
+    },
+    ({ firstName, lastName, classCode, officialDate }) => {
+      const username = SMARTSCHOOL_CONVENTIONS.generateUsername(
+        firstName,
+        lastName,
+      );
+      return userMessage(
+        `
+Onboard the new student ${firstName} ${lastName} into class ${classCode} from ${officialDate || today()}.
+
+Steps:
+1. Check that the proposed username '${username}' is free with ${tool("getUserDetailsByUsername", isAllowed)}. If it is taken, check whether it is the same person; otherwise propose a variant (e.g. '${username}2') and ask for approval.
+2. Create the account with ${tool("saveUser", isAllowed)} (basisrol 'leerling'). This is a DESTRUCTIVE operation: the first call returns a summary and a confirmation token. Show the summary and only repeat the call with the token after explicit approval.
+3. Enrol the student with ${tool("saveUserToClass", isAllowed)} in class '${classCode}' with officialDate '${officialDate || today()}'.
+4. Verify the result with ${tool("getUserOfficialClass", isAllowed)} for date '${officialDate || today()}' and report the username, class and anything still to do manually (co-accounts, password letter).
+
+${contextFor("saveUser")}
+      `.trim(),
+      );
+    },
+  );
+
+  server.prompt(
+    "leavers-check",
+    "End-of-year check of a class: which students leave the school",
+    {
+      classCode: z.string().describe("Class code to check, e.g. '6WEWE'"),
+      schoolYear: z
+        .string()
+        .optional()
+        .describe("School year that is ending, as starting year"),
+    },
+    ({ classCode, schoolYear }) =>
+      userMessage(
+        `
+Run the end-of-year leavers check for class ${classCode} (${SMARTSCHOOL_CONVENTIONS.schoolYearFormat(schoolYear || SMARTSCHOOL_CONVENTIONS.currentSchoolYear())}).
+
+Steps:
+1. List the current members with ${tool("getAllAccounts", isAllowed)} (code '${classCode}', recursive '0').
+2. For each student, review ${tool("getStudentCareer", isAllowed)} to see whether they are in their final year or already registered elsewhere.
+3. Present a table: student, username, proposed status (leaves / stays) and the reason. Ask the user to confirm the list.
+4. For each confirmed leaver, first call ${tool("unregisterStudent", isAllowed)} with dryRun: true to preview the impact. This is a CRITICAL operation: never execute it without explicit approval per student, and always pass an officialDate.
+
+${contextFor("getStudentCareer")}
+      `.trim(),
+      ),
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * @file Helpers for reading Smartschool response records
+ *
+ * Smartschool returns lists as arrays, JSON strings or keyed objects, and uses
+ * Dutch field names (gebruikersnaam, voornaam, naam, ...). These helpers hide
+ * those differences from the tools that consume them, and give parameter
+ * objects a canonical form for hashing and cache keys.
+ */
+
+/**
+ * Smartschool returns some lists as JSON strings; parse those so they can be
+ * validated and rendered like any other result
+ */
+export function parseJsonResult(result: unknown): unknown {
+  if (typeof result !== "string") return result;
+  const trimmed = result.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return result;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return result;
+  }
+}
+
+/**
+ * Normalize a Smartschool list response (array, JSON string or keyed object)
+ * into an array of records
+ */
+export function toRecords(result: unknown): Record<string, any>[] {
+  if (typeof result === "string") {
+    try {
+      return toRecords(JSON.parse(result));
+    } catch {
+      return [];
+    }
+  }
+  if (Array.isArray(result)) return result;
+  if (result && typeof result === "object") {
+    return Object.values(result).filter(
+      (value) => value && typeof value === "object",
+    );
+  }
+  return [];
+}
+
+/**
+ * Return the first non-empty field among candidate keys, as a string
+ */
+export function pickField(record: Record<string, any>, keys: string[]): string {
+  for (const key of keys) {
+    if (record[key] !== undefined && record[key] !== null) {
+      return String(record[key]);
+    }
+  }
+  return "";
+}
+
+/**
+ * Reduce an account record to the fields an admin needs to recognise it
+ */
+export function describeAccount(account: Record<string, any>) {
+  return {
+    username: pickField(account, ["gebruikersnaam", "username"]),
+    firstName: pickField(account, ["voornaam", "name"]),
+    lastName: pickField(account, ["naam", "surname"]),
+    internalNumber: pickField(account, ["internnummer", "internnumber"]),
+    role: pickField(account, ["basisrol"]),
+  };
+}
+
+/**
+ * Whether an account record has the given co-account (0 is the main account)
+ */
+export function hasCoAccount(
+  record: Record<string, any>,
+  coaccount: number,
+): boolean {
+  if (coaccount === 0) return true;
+  const status = pickField(record, [`status_coaccount${coaccount}`]);
+  if (status) return status.toLowerCase() !== "niet actief";
+  return !!pickField(record, [
+    `naam_coaccount${coaccount}`,
+    `voornaam_coaccount${coaccount}`,
+    `email_coaccount${coaccount}`,
+  ]).trim();
+}
+
+/**
+ * Serialize a value with sorted object keys so equal params hash equally
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as any)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`,
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
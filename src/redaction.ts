@@ -0,0 +1,235 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { globToRegExp } from "./policy.js";
+import { parseJsonResult } from "./records.js";
+
+/**
+ * @file PII redaction profiles for tool and resource responses
+ *
+ * A profile drops or masks fields before Smartschool data is rendered and
+ * sent to the model: method tool responses, resources and the reports and
+ * previews of the composite tools. Field paths are dot-separated keys with * and ?
+ * wildcards, matched against the end of a field's path with array indices
+ * left out: 'geboortedatum' hides that field at any depth, 'groups.desc' only
+ * the description of a user's groups.
+ *
+ * Built-in profiles:
+ * - full: nothing is hidden
+ * - contact-only: identity and contact details only (no birth data, national
+ *   register numbers or addresses)
+ * - minimal: identity only; contact details are dropped and co-account
+ *   (parent) names are masked
+ *
+ * REDACTION_PROFILES_FILE can add profiles or extend the built-in ones.
+ */
+
+export const REDACTION_PROFILE =
+  process.env.REDACTION_PROFILE || "contact-only";
+export const REDACTION_PROFILES_FILE = process.env.REDACTION_PROFILES_FILE;
+
+export const REDACTED_VALUE = "[redacted]";
+
+export interface RedactionProfile {
+  name: string;
+  /** Paths removed from the response */
+  drop: string[];
+  /** Paths kept with their value replaced by REDACTED_VALUE */
+  mask: string[];
+}
+
+const BIRTH_AND_IDENTITY_FIELDS = [
+  "geboorte*",
+  "birth*",
+  "rijksregisternummer*",
+  "stamboeknummer*",
+  "nationaliteit*",
+  "nationality",
+  "sexe*",
+  "sex",
+  "geslacht*",
+  "extravoornamen",
+  "extranames",
+];
+
+const ADDRESS_FIELDS = [
+  "adres*",
+  "address*",
+  "straat*",
+  "huisnummer*",
+  "postcode*",
+  "postalcode*",
+  "woonplaats*",
+  "city",
+  "land*",
+  "country",
+];
+
+const CONTACT_FIELDS = [
+  "email*",
+  "telefoon*",
+  "gsm*",
+  "mobiel*",
+  "phone*",
+  "mobile*",
+  "fax*",
+];
+
+const BUILT_IN_PROFILES: Record<string, Omit<RedactionProfile, "name">> = {
+  full: { drop: [], mask: [] },
+  "contact-only": {
+    drop: [...BIRTH_AND_IDENTITY_FIELDS, ...ADDRESS_FIELDS],
+    mask: [],
+  },
+  minimal: {
+    drop: [...BIRTH_AND_IDENTITY_FIELDS, ...ADDRESS_FIELDS, ...CONTACT_FIELDS],
+    mask: ["naam_coaccount*", "voornaam_coaccount*"],
+  },
+};
+
+const ProfilesFileSchema = z.record(
+  z.object({
+    extends: z.string().optional(),
+    drop: z.array(z.string()).default([]),
+    mask: z.array(z.string()).default([]),
+  }),
+);
+
+/**
+ * Resolve the active redaction profile. Throws on an unknown profile or an
+ * invalid profiles file so the server never starts without the redaction it
+ * was configured for.
+ */
+export function loadRedactionProfile(
+  name: string = REDACTION_PROFILE,
+  file: string | undefined = REDACTION_PROFILES_FILE,
+): RedactionProfile {
+  let custom: z.infer<typeof ProfilesFileSchema> = {};
+  if (file) {
+    const parsed = ProfilesFileSchema.safeParse(
+      JSON.parse(readFileSync(file, "utf8")),
+    );
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid redaction profiles file ${file}: ${parsed.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; ")}`,
+      );
+    }
+    custom = parsed.data;
+  }
+
+  const resolve = (
+    profileName: string,
+    seen: string[],
+  ): Omit<RedactionProfile, "name"> => {
+    if (seen.includes(profileName)) {
+      throw new Error(
+        `Redaction profile '${profileName}' extends itself (${[...seen, profileName].join(" → ")})`,
+      );
+    }
+    const definition = custom[profileName];
+    if (!definition) {
+      const builtIn = BUILT_IN_PROFILES[profileName];
+      if (!builtIn) {
+        throw new Error(
+          `Unknown redaction profile '${profileName}'. Available: ${[...new Set([...Object.keys(BUILT_IN_PROFILES), ...Object.keys(custom)])].join(", ")}`,
+        );
+      }
+      return builtIn;
+    }
+    const base = definition.extends
+      ? resolve(definition.extends, [...seen, profileName])
+      : { drop: [], mask: [] };
+    return {
+      drop: [...base.drop, ...definition.drop],
+      mask: [...base.mask, ...definition.mask],
+    };
+  };
+
+  return { name, ...resolve(name, []) };
+}
+
+function compilePath(path: string): RegExp[] {
+  return path.split(".").map(globToRegExp);
+}
+
+function matchesPath(patterns: RegExp[], path: string[]): boolean {
+  if (patterns.length > path.length) return false;
+  const tail = path.slice(path.length - patterns.length);
+  return patterns.every((pattern, index) => pattern.test(tail[index]));
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+export type Redactor = (result: unknown) => {
+  value: unknown;
+  redacted: number;
+};
+
+/**
+ * Create a function that applies a profile to a Smartschool response. It
+ * returns the redacted copy and the number of non-empty fields hidden.
+ */
+export function createRedactor(profile: RedactionProfile): Redactor {
+  const drop = profile.drop.map(compilePath);
+  const mask = profile.mask.map(compilePath);
+
+  return (result: unknown): { value: unknown; redacted: number } => {
+    const parsed = parseJsonResult(result);
+    if (drop.length === 0 && mask.length === 0) {
+      return { value: parsed, redacted: 0 };
+    }
+
+    let redacted = 0;
+    const walk = (node: unknown, path: string[]): unknown => {
+      if (Array.isArray(node)) return node.map((item) => walk(item, path));
+      if (!node || typeof node !== "object") return node;
+
+      const copy: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(node)) {
+        const fieldPath = [...path, key];
+        if (drop.some((patterns) => matchesPath(patterns, fieldPath))) {
+          if (!isEmpty(value)) redacted++;
+          continue;
+        }
+        if (
+          !isEmpty(value) &&
+          mask.some((patterns) => matchesPath(patterns, fieldPath))
+        ) {
+          redacted++;
+          copy[key] = REDACTED_VALUE;
+          continue;
+        }
+        copy[key] = walk(value, fieldPath);
+      }
+      return copy;
+    };
+
+    return { value: walk(parsed, []), redacted };
+  };
+}
+
+let active: { profile: RedactionProfile; redact: Redactor } | undefined;
+
+/**
+ * The profile selected by REDACTION_PROFILE and its redactor, loaded once
+ */
+export function activeRedaction(): {
+  profile: RedactionProfile;
+  redact: Redactor;
+} {
+  if (!active) {
+    const profile = loadRedactionProfile();
+    active = { profile, redact: createRedactor(profile) };
+  }
+  return active;
+}
+
+/**
+ * Apply the active profile to data a tool or resource returns
+ */
+export function redactOutput(data: unknown): unknown {
+  return activeRedaction().redact(data).value;
+}
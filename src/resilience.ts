@@ -0,0 +1,246 @@
+import { logger } from "./logger.js";
+import { getSafetyLevel, SAFETY_LEVELS } from "./safety.js";
+
+/**
+ * @file Timeouts, retries and a circuit breaker around Smartschool requests
+ *
+ * Every request gets a timeout, per method since a full
+ * getAllAccountsExtended legitimately takes much longer than checkStatus.
+ * The SOAP request itself cannot be aborted: on timeout the caller stops
+ * waiting, but a mutation may still be applied. That is why only SAFE
+ * methods are retried, with jittered exponential backoff, and only after a
+ * transient failure (timeout, network error, 5xx or maintenance page).
+ *
+ * Transient failures also feed a circuit breaker, one per client. After
+ * CIRCUIT_FAILURE_THRESHOLD of them in a row, requests fail immediately for
+ * CIRCUIT_RESET_SECONDS; then a single trial request decides whether the
+ * circuit closes again or stays open.
+ */
+
+function readCount(value: string | undefined, fallback: number): number {
+  const count = Number(value);
+  return value !== undefined && value !== "" && Number.isInteger(count)
+    ? Math.max(0, count)
+    : fallback;
+}
+
+export const CLIENT_TIMEOUT_MS = Number(process.env.CLIENT_TIMEOUT_MS) || 30000;
+const CLIENT_RETRIES = readCount(process.env.CLIENT_RETRIES, 2);
+const CLIENT_RETRY_BASE_MS = Number(process.env.CLIENT_RETRY_BASE_MS) || 500;
+const CLIENT_RETRY_MAX_MS = Number(process.env.CLIENT_RETRY_MAX_MS) || 8000;
+const CIRCUIT_FAILURE_THRESHOLD =
+  Number(process.env.CIRCUIT_FAILURE_THRESHOLD) || 5;
+const CIRCUIT_RESET_SECONDS = Number(process.env.CIRCUIT_RESET_SECONDS) || 30;
+
+/**
+ * Default timeout in milliseconds for slow methods. Methods not listed use
+ * CLIENT_TIMEOUT_MS. Override with CLIENT_TIMEOUTS, a JSON object such as
+ * '{"getAllAccountsExtended": 300000}'.
+ */
+const DEFAULT_METHOD_TIMEOUTS: Record<string, number> = {
+  // Whole-school listings, recursive by default
+  getAllAccountsExtended: 180000,
+  getAllAccounts: 120000,
+  getAllGroupsAndClasses: 60000,
+  getClassTeachers: 60000,
+  getCourses: 60000,
+
+  // Photos travel as base64
+  getAccountPhoto: 60000,
+  setAccountPhoto: 60000,
+
+  // Bulk operations
+  startSkoreSync: 120000,
+};
+
+function loadMethodTimeouts(): Record<string, number> {
+  if (!process.env.CLIENT_TIMEOUTS) return DEFAULT_METHOD_TIMEOUTS;
+  try {
+    return {
+      ...DEFAULT_METHOD_TIMEOUTS,
+      ...JSON.parse(process.env.CLIENT_TIMEOUTS),
+    };
+  } catch (error) {
+    logger.warn("⚠️ Ignoring invalid CLIENT_TIMEOUTS (expected JSON)", {
+      error,
+    });
+    return DEFAULT_METHOD_TIMEOUTS;
+  }
+}
+
+const METHOD_TIMEOUTS = loadMethodTimeouts();
+
+const TRANSIENT_CODES = new Set([
+  "ETIMEDOUT",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "EPIPE",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/** Code of the error thrown while the circuit is open */
+const CIRCUIT_OPEN = "ECIRCUITOPEN";
+
+const TRANSIENT_MESSAGE =
+  /timed? ?out|socket hang up|network|502|503|504|bad gateway|service unavailable|gateway timeout|maintenance|onderhoud/i;
+
+export type Invoke = (
+  methodName: string,
+  request: () => Promise<any>,
+) => Promise<any>;
+
+export function getMethodTimeout(methodName: string): number {
+  return METHOD_TIMEOUTS[methodName] ?? CLIENT_TIMEOUT_MS;
+}
+
+/**
+ * Whether a failure says nothing about the request itself, so that trying
+ * again later may succeed
+ */
+export function isTransientError(error: any): boolean {
+  // Not a failure of Smartschool, and its text mentions maintenance
+  if (!error || error.code === CIRCUIT_OPEN) return false;
+  if (TRANSIENT_CODES.has(error.code ?? error.cause?.code)) return true;
+  const status = Number(error.response?.status ?? error.response?.statusCode);
+  if (status >= 500) return true;
+  return TRANSIENT_MESSAGE.test(String(error.message ?? error));
+}
+
+function withTimeout<T>(
+  methodName: string,
+  request: () => Promise<T>,
+): Promise<T> {
+  const timeoutMs = getMethodTimeout(methodName);
+  const mutation = getSafetyLevel(methodName) !== SAFETY_LEVELS.SAFE;
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(
+        Object.assign(
+          new Error(
+            `⏱️ Smartschool did not answer ${methodName} within ${timeoutMs / 1000}s.${mutation ? " The change may still have been applied: check before trying again." : ""}`,
+          ),
+          { code: "ETIMEDOUT" },
+        ),
+      );
+    }, timeoutMs);
+    timer.unref();
+  });
+
+  return Promise.race([request(), timeout]).finally(() => clearTimeout(timer));
+}
+
+/** Full jitter: a random delay up to the exponential backoff */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(
+    CLIENT_RETRY_MAX_MS,
+    CLIENT_RETRY_BASE_MS * 2 ** (attempt - 1),
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create the function that runs every request of one Smartschool client,
+ * with its own circuit breaker
+ */
+export function createResilientInvoke(label?: string): Invoke {
+  let failures = 0;
+  let openUntil = 0;
+  let lastError = "";
+  let trialInFlight = false;
+
+  const recordSuccess = () => {
+    if (openUntil > 0) {
+      logger.info("✅ Smartschool answers again, circuit closed", {
+        school: label,
+      });
+    }
+    failures = 0;
+    openUntil = 0;
+  };
+
+  const recordFailure = (methodName: string, error: any) => {
+    failures++;
+    lastError = String(error?.message ?? error).replace(/\.$/, "");
+    if (failures >= CIRCUIT_FAILURE_THRESHOLD) {
+      // A failed trial reopens the circuit for another period
+      openUntil = Date.now() + CIRCUIT_RESET_SECONDS * 1000;
+      logger.error("⛔ Smartschool keeps failing, circuit opened", {
+        school: label,
+        method: methodName,
+        failures,
+        until: new Date(openUntil).toISOString(),
+        error,
+      });
+    }
+  };
+
+  const attempt = async (methodName: string, request: () => Promise<any>) => {
+    const open = openUntil > 0;
+    if (open && (Date.now() < openUntil || trialInFlight)) {
+      const seconds = Math.max(1, Math.ceil((openUntil - Date.now()) / 1000));
+      throw Object.assign(
+        new Error(
+          `⛔ Smartschool is not responding${label ? ` (${label})` : ""}: ${failures} request(s) in a row failed, last with "${lastError}". Requests are paused until ${new Date(openUntil).toISOString()} (about ${seconds}s); Smartschool may be under maintenance. Try again later.`,
+        ),
+        { code: CIRCUIT_OPEN },
+      );
+    }
+
+    // Once the pause is over, one request tests whether Smartschool is back
+    trialInFlight = open;
+    try {
+      const result = await withTimeout(methodName, request);
+      recordSuccess();
+      return result;
+    } catch (error) {
+      // Errors reported by Smartschool itself show that it is up
+      if (isTransientError(error)) {
+        recordFailure(methodName, error);
+      } else {
+        recordSuccess();
+      }
+      throw error;
+    } finally {
+      if (open) trialInFlight = false;
+    }
+  };
+
+  return async (methodName, request) => {
+    const retries =
+      getSafetyLevel(methodName) === SAFETY_LEVELS.SAFE ? CLIENT_RETRIES : 0;
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      try {
+        return await attempt(methodName, request);
+      } catch (error) {
+        if (
+          attemptNumber > retries ||
+          !isTransientError(error) ||
+          openUntil > Date.now()
+        ) {
+          throw error;
+        }
+        const delayMs = backoffDelay(attemptNumber);
+        logger.warn("🔁 Retrying Smartschool request", {
+          school: label,
+          method: methodName,
+          attempt: attemptNumber + 1,
+          delayMs,
+          error,
+        });
+        await sleep(delayMs);
+      }
+    }
+  };
+}
@@ -0,0 +1,178 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ClientCall } from "./client.js";
+import { SMARTSCHOOL_CONVENTIONS } from "./conventions.js";
+import { redactOutput } from "./redaction.js";
+import type { School, Schools } from "./schools.js";
+
+/**
+ * @file School reference data exposed as MCP resources
+ *
+ * Static and slowly changing data gets stable smartschool:// URIs, so clients
+ * can attach it as context without spending tool calls. Resources backed by a
+ * Smartschool method are only registered when the policy allows that method,
+ * and their data passes through the redaction profile.
+ * With several schools they are registered per school, under
+ * smartschool://<school>/...
+ */
+
+interface StaticResource {
+  name: string;
+  uri: string;
+  description: string;
+  /** Smartschool method backing this resource, if any */
+  method?: string;
+  read: (call: ClientCall) => Promise<unknown>;
+}
+
+const STATIC_RESOURCES: StaticResource[] = [
+  {
+    name: "absence-codes",
+    uri: "smartschool://reference/absence-codes",
+    description:
+      "Meaning of the Smartschool absence codes used in morning (am) and afternoon (pm) attendance records",
+    read: async () => SMARTSCHOOL_CONVENTIONS.absenceCodes,
+  },
+  {
+    name: "user-roles",
+    uri: "smartschool://reference/user-roles",
+    description: "Smartschool base roles (basisrol) and what they mean",
+    read: async () => SMARTSCHOOL_CONVENTIONS.userRoles,
+  },
+  {
+    name: "co-account-types",
+    uri: "smartschool://reference/co-account-types",
+    description:
+      "Co-account numbers (0 = main account, 1-6 = parent/guardian accounts)",
+    read: async () => SMARTSCHOOL_CONVENTIONS.coAccountTypes,
+  },
+  {
+    name: "error-codes",
+    uri: "smartschool://reference/error-codes",
+    description: "Smartschool web service error codes and their meaning",
+    method: "returnJsonErrorCodes",
+    read: (call) => call("returnJsonErrorCodes", {}),
+  },
+  {
+    name: "classes",
+    uri: "smartschool://classes",
+    description: "All groups and classes in the school, as a tree",
+    method: "getAllGroupsAndClasses",
+    read: (call) => call("getAllGroupsAndClasses", {}),
+  },
+  {
+    name: "class-list",
+    uri: "smartschool://class-list",
+    description: "Flat list of all classes with their administrative details",
+    method: "getClassList",
+    read: (call) => call("getClassList", {}),
+  },
+  {
+    name: "courses",
+    uri: "smartschool://courses",
+    description: "All courses with their teachers and student groups",
+    method: "getCourses",
+    read: (call) => call("getCourses", {}),
+  },
+  {
+    name: "helpdesk-categories",
+    uri: "smartschool://helpdesk/categories",
+    description:
+      "Helpdesk mini-database items, needed as miniDbItem when adding helpdesk tickets",
+    method: "getHelpdeskMiniDbItems",
+    read: (call) => call("getHelpdeskMiniDbItems", {}),
+  },
+];
+
+function jsonContents(uri: URL, data: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: typeof data === "string" ? data : JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Register reference data resources on an MCP server
+ */
+export function registerResources(server: McpServer, schools: Schools) {
+  // Reference data is the same for every school
+  for (const resource of STATIC_RESOURCES) {
+    if (resource.method) continue;
+    server.resource(
+      resource.name,
+      resource.uri,
+      { description: resource.description, mimeType: "application/json" },
+      async (uri) =>
+        jsonContents(uri, await resource.read(schools.all[0].call)),
+    );
+  }
+
+  for (const school of schools.all) {
+    registerSchoolResources(server, school, schools.multiple);
+  }
+}
+
+function registerSchoolResources(
+  server: McpServer,
+  { name, description, call, isAllowed, authorize }: School,
+  prefixed: boolean,
+) {
+  const scoped = (uri: string) =>
+    prefixed ? uri.replace("smartschool://", `smartschool://${name}/`) : uri;
+  const label = (resourceName: string) =>
+    prefixed ? `${name}-${resourceName}` : resourceName;
+  const describe = (text: string) =>
+    prefixed ? `${description ?? name}: ${text}` : text;
+
+  for (const resource of STATIC_RESOURCES) {
+    if (!resource.method || !isAllowed(resource.method).allowed) continue;
+
+    server.resource(
+      label(resource.name),
+      scoped(resource.uri),
+      {
+        description: describe(resource.description),
+        mimeType: "application/json",
+      },
+      async (uri) => jsonContents(uri, redactOutput(await resource.read(call))),
+    );
+  }
+
+  if (isAllowed("getAllAccounts").allowed) {
+    const template = scoped("smartschool://classes/{code}/members");
+    server.resource(
+      label("class-members"),
+      new ResourceTemplate(template, {
+        list: undefined,
+      }),
+      {
+        description: describe(
+          `Direct members of a class or group (e.g., ${template.replace("{code}", "3B")})`,
+        ),
+        mimeType: "application/json",
+      },
+      async (uri, { code }) => {
+        const params = {
+          code: decodeURIComponent(String(code)),
+          recursive: "0",
+        };
+        // Parameter constraints may limit which classes can be read
+        const check = authorize("getAllAccounts", params);
+        if (!check.allowed) {
+          throw new Error(check.reason ?? "🚫 Blocked by policy.");
+        }
+        return jsonContents(
+          uri,
+          redactOutput(await call("getAllAccounts", params)),
+        );
+      },
+    );
+  }
+}
@@ -0,0 +1,400 @@
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { callWithAudit } from "./audit.js";
+import {
+  consumeConfirmationToken,
+  issueConfirmationToken,
+} from "./confirmation.js";
+import { logger } from "./logger.js";
+import { describeAccount, stableStringify, toRecords } from "./records.js";
+import { RolloverSchema } from "./schemas.js";
+import type { Schools } from "./schools.js";
+
+/**
+ * @file School-year rollover: promote, keep or unregister whole classes
+ *
+ * smartschool-rollover reads the members of every mapped class, builds a
+ * plan (promote, repeat, move, leave) with per-student overrides and, after
+ * confirmation, executes it with saveUserToClass / unregisterStudent.
+ *
+ * Every executed step is appended to a journal file per rollover (identified
+ * by the mapping and dates). Students with a successful step in the journal
+ * are skipped on later runs, so resuming after a partial failure never
+ * applies a change twice, even when a promoted student now shows up in the
+ * next mapped class.
+ */
+
+export const ROLLOVER_JOURNAL_DIR =
+  process.env.ROLLOVER_JOURNAL_DIR ||
+  join(homedir(), ".smartschool-mcp", "rollover");
+
+type RolloverAction = "promote" | "repeat" | "leave" | "move";
+
+interface PlanStep {
+  username: string;
+  name: string;
+  fromClass: string;
+  action: RolloverAction;
+  toClass?: string;
+  method: "saveUserToClass" | "unregisterStudent";
+  params: Record<string, unknown>;
+  /** Already executed according to the journal */
+  done?: boolean;
+  /** Why this step cannot run (policy, missing target class) */
+  blocked?: string;
+}
+
+interface JournalEntry {
+  timestamp: string;
+  username: string;
+  action: RolloverAction;
+  method: string;
+  params: Record<string, unknown>;
+  outcome: "success" | "error";
+  error?: string;
+}
+
+function errorResult(text: string) {
+  return {
+    content: [{ type: "text" as const, text }],
+    isError: true,
+  };
+}
+
+function journalPath(rolloverId: string): string {
+  return join(ROLLOVER_JOURNAL_DIR, `${rolloverId}.jsonl`);
+}
+
+/**
+ * Usernames with a successful step in the journal
+ */
+async function readCompleted(rolloverId: string): Promise<Set<string>> {
+  let contents: string;
+  try {
+    contents = await readFile(journalPath(rolloverId), "utf8");
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return new Set();
+    throw error;
+  }
+
+  const completed = new Set<string>();
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry: JournalEntry = JSON.parse(line);
+      if (entry.outcome === "success") {
+        completed.add(entry.username.toLowerCase());
+      }
+    } catch {
+      // A torn last line from an interrupted write is not a completed step
+    }
+  }
+  return completed;
+}
+
+async function appendJournal(rolloverId: string, entry: JournalEntry) {
+  await mkdir(ROLLOVER_JOURNAL_DIR, { recursive: true });
+  await appendFile(
+    journalPath(rolloverId),
+    `${JSON.stringify(entry)}\n`,
+    "utf8",
+  );
+}
+
+function summarize(steps: PlanStep[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const step of steps) {
+    const key = step.done
+      ? "alreadyDone"
+      : step.blocked
+        ? "blocked"
+        : step.action;
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Register the school-year rollover tool on an MCP server
+ */
+export function registerRolloverTools(server: McpServer, schools: Schools) {
+  if (
+    !schools.isAllowed("saveUserToClass").allowed ||
+    !schools.isAllowed("getAllAccounts").allowed
+  ) {
+    return;
+  }
+
+  server.tool(
+    "smartschool-rollover",
+    `
+School-year rollover: move whole classes to next year's class and unregister leavers
+
+🎯 Use Case: End of the school year, e.g. every 1A student to 2A and the final-year classes out
+📂 Category: Class Management
+💡 Examples: Promote 1A→2A and 1B→2B from 2025-09-01, Roll over all classes but let jan.peeters repeat 3B
+
+Reads the current members of each 'from' class with getAllAccounts and plans one step per student: 'promote' (saveUserToClass into the mapped class), 'repeat' (saveUserToClass into the current class), 'move' (saveUserToClass into the override class) or 'leave' (unregisterStudent, for classes without 'to'). Overrides change the step for individual students.
+
+⚠️ Always two phases: the first call changes nothing and returns the plan plus a confirmation token. Review it with the user, then call again with identical parameters plus confirmationToken. Executed steps are journaled per rollover: calling again with the same mapping and dates resumes and skips students that were already processed.
+    `.trim(),
+    { ...RolloverSchema.shape, ...schools.param },
+    async (params, extra) => {
+      const school = schools.resolve(params.school);
+      if ("error" in school) return errorResult(school.error);
+      const { call, authorize } = school;
+
+      const { confirmationToken, ...rolloverParams } = params;
+      const {
+        mapping,
+        officialDate,
+        leaveDate = officialDate,
+        overrides = [],
+      } = rolloverParams;
+
+      const rolloverId = createHash("sha256")
+        .update(
+          stableStringify({
+            mapping,
+            officialDate,
+            leaveDate,
+            // Keeps the ids of single-school setups unchanged
+            school: schools.multiple ? school.name : undefined,
+          }),
+        )
+        .digest("hex")
+        .slice(0, 16);
+
+      // Read current memberships
+      const steps: PlanStep[] = [];
+      const warnings: string[] = [];
+      const seen = new Map<string, string>();
+      for (const { from, to } of mapping) {
+        const membersParams = { code: from, recursive: "0" };
+        const check = authorize("getAllAccounts", membersParams);
+        if (!check.allowed) {
+          return errorResult(check.reason ?? "🚫 Blocked by policy.");
+        }
+
+        let members: Record<string, any>[];
+        try {
+          members = toRecords(await call("getAllAccounts", membersParams));
+        } catch (error: any) {
+          return errorResult(
+            `❌ Could not list the members of ${from}: ${error?.message ?? error}`,
+          );
+        }
+        if (members.length === 0) {
+          warnings.push(`${from} has no members`);
+        }
+
+        for (const member of members) {
+          const account = describeAccount(member);
+          if (!account.username) continue;
+          const key = account.username.toLowerCase();
+          if (seen.has(key)) {
+            warnings.push(
+              `${account.username} is in both ${seen.get(key)} and ${from}; planned from ${seen.get(key)} only`,
+            );
+            continue;
+          }
+          seen.set(key, from);
+
+          steps.push({
+            username: account.username,
+            name: `${account.firstName} ${account.lastName}`.trim(),
+            fromClass: from,
+            action: to ? "promote" : "leave",
+            toClass: to,
+            method: to ? "saveUserToClass" : "unregisterStudent",
+            params: {},
+          });
+        }
+      }
+
+      // Apply per-student overrides
+      for (const override of overrides) {
+        const step = steps.find(
+          (candidate) =>
+            candidate.username.toLowerCase() ===
+            override.userIdentifier.toLowerCase(),
+        );
+        if (!step) {
+          warnings.push(
+            `Override for ${override.userIdentifier} ignored: not a member of any mapped class`,
+          );
+          continue;
+        }
+
+        const mapped = mapping.find(({ from }) => from === step.fromClass)?.to;
+        step.action = override.action;
+        step.toClass =
+          override.action === "repeat"
+            ? step.fromClass
+            : override.action === "move"
+              ? override.class
+              : override.action === "promote"
+                ? mapped
+                : undefined;
+        step.method =
+          override.action === "leave" ? "unregisterStudent" : "saveUserToClass";
+        if (step.method === "saveUserToClass" && !step.toClass) {
+          step.blocked =
+            override.action === "move"
+              ? "'move' needs a target class"
+              : `${step.fromClass} has no 'to' class to promote to`;
+        }
+      }
+
+      // Resolve call parameters, policy and journal state
+      const completed = await readCompleted(rolloverId);
+      for (const step of steps) {
+        step.params =
+          step.method === "saveUserToClass"
+            ? {
+                userIdentifier: step.username,
+                class: step.toClass,
+                officialDate,
+              }
+            : { userIdentifier: step.username, officialDate: leaveDate };
+        if (completed.has(step.username.toLowerCase())) {
+          step.done = true;
+          continue;
+        }
+        if (!step.blocked) {
+          const check = authorize(step.method, step.params);
+          if (!check.allowed)
+            step.blocked = check.reason ?? "Blocked by policy";
+        }
+      }
+
+      const pending = steps.filter((step) => !step.done && !step.blocked);
+      const planView = steps.map(
+        ({ username, name, fromClass, action, toClass, done, blocked }) => ({
+          username,
+          name,
+          fromClass,
+          action,
+          ...(toClass ? { toClass } : {}),
+          ...(done ? { status: "already done" } : {}),
+          ...(blocked ? { blocked } : {}),
+        }),
+      );
+
+      // Bind the token to the exact plan, so changed memberships need a new review
+      const tokenParams = {
+        ...rolloverParams,
+        plan: pending.map(({ method, params }) => ({ method, params })),
+      };
+
+      if (!confirmationToken) {
+        const token =
+          pending.length > 0
+            ? issueConfirmationToken(
+                "rollover",
+                tokenParams,
+                extra.authInfo?.clientId,
+              )
+            : undefined;
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `🔍 Rollover plan ${rolloverId}, nothing was changed: ${JSON.stringify(summarize(steps))}${warnings.length > 0 ? `\n⚠️ ${warnings.join("\n⚠️ ")}` : ""}\n${JSON.stringify(planView, null, 2)}\n\n${
+                token
+                  ? `To execute the ${pending.length} pending step(s), ask the user to approve, then call smartschool-rollover again with the identical parameters plus confirmationToken: "${token.token}" (single use, expires ${token.expiresAt.toISOString()}).`
+                  : "Nothing left to execute."
+              }`,
+            },
+          ],
+        };
+      }
+
+      const confirmation = consumeConfirmationToken(
+        confirmationToken,
+        "rollover",
+        tokenParams,
+        extra.authInfo?.clientId,
+      );
+      if (!confirmation.valid) {
+        return errorResult(
+          `🚫 Nothing was changed: ${confirmation.reason}\n\nCall smartschool-rollover without confirmationToken to review the current plan and receive a new token.`,
+        );
+      }
+
+      const results: {
+        username: string;
+        action: RolloverAction;
+        status: "done" | "failed";
+        error?: string;
+      }[] = [];
+      let journalFailure: string | undefined;
+      for (const step of pending) {
+        const entry = {
+          username: step.username,
+          action: step.action,
+          method: step.method,
+          params: step.params,
+        };
+        let error: string | undefined;
+        try {
+          await callWithAudit(
+            call,
+            step.method,
+            step.params,
+            extra.authInfo?.clientId,
+            school.name,
+          );
+        } catch (callError: any) {
+          error = callError?.message ?? String(callError);
+        }
+
+        try {
+          await appendJournal(rolloverId, {
+            timestamp: new Date().toISOString(),
+            ...entry,
+            outcome: error ? "error" : "success",
+            ...(error ? { error } : {}),
+          });
+        } catch (journalError: any) {
+          logger.error("💥 Failed to write rollover journal", {
+            error: journalError,
+          });
+          // Without the entry a resumed run would repeat this step
+          if (!error) {
+            journalFailure = journalError?.message ?? String(journalError);
+          }
+        }
+
+        results.push({
+          username: step.username,
+          action: step.action,
+          status: error ? "failed" : "done",
+          ...(error ? { error } : {}),
+        });
+        if (journalFailure) break;
+      }
+
+      const failed = results.filter((result) => result.status === "failed");
+      const notRun = pending.length - results.length;
+      const stopped = journalFailure
+        ? `\n\n⛔ Stopped: the journal could not be written after ${results.at(-1)!.username} (${journalFailure}). That step was done but is not journaled, so a new run would repeat it; ${notRun} step(s) were not run. Fix the journal (ROLLOVER_JOURNAL_DIR) before resuming.`
+        : "";
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `${failed.length > 0 || journalFailure ? "⚠️" : "✅"} Rollover ${rolloverId}: ${results.length - failed.length} step(s) done, ${failed.length} failed, ${steps.length - pending.length} skipped (already done or blocked)${journalFailure ? `, ${notRun} not run` : ""}. Journal: ${journalPath(rolloverId)}\n${JSON.stringify(results, null, 2)}${stopped}${failed.length > 0 && !journalFailure ? "\n\nFix the cause, then call smartschool-rollover again with the same mapping and dates: completed students are skipped." : ""}`,
+          },
+        ],
+        ...(journalFailure ||
+        (failed.length > 0 && failed.length === results.length)
+          ? { isError: true }
+          : {}),
+      };
+    },
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * @file Safety classification of Smartschool API methods
+ */
+
+/**
+ * Safety classification for API methods
+ */
+export const SAFETY_LEVELS = {
+  SAFE: "safe", // Read-only operations, no risk
+  MODERATE: "moderate", // Modifications that are reversible
+  DESTRUCTIVE: "destructive", // Irreversible or high-impact operations
+  CRITICAL: "critical", // System-level changes that could break things
+} as const;
+
+export type SafetyLevel = (typeof SAFETY_LEVELS)[keyof typeof SAFETY_LEVELS];
+
+/**
+ * Method safety classification
+ */
+export const METHOD_SAFETY: Record<string, SafetyLevel> = {
+  // SAFE - Read-only operations
+  getUserDetails: SAFETY_LEVELS.SAFE,
+  getUserDetailsByUsername: SAFETY_LEVELS.SAFE,
+  getUserDetailsByNumber: SAFETY_LEVELS.SAFE,
+  getUserDetailsByScannableCode: SAFETY_LEVELS.SAFE,
+  getAbsents: SAFETY_LEVELS.SAFE,
+  getAbsentsByDate: SAFETY_LEVELS.SAFE,
+  getAbsentsByDateAndGroup: SAFETY_LEVELS.SAFE,
+  getAbsentsWithAlias: SAFETY_LEVELS.SAFE,
+  getAbsentsWithAliasByDate: SAFETY_LEVELS.SAFE,
+  getAbsentsWithInternalNumberByDate: SAFETY_LEVELS.SAFE,
+  getAbsentsWithUsernameByDate: SAFETY_LEVELS.SAFE,
+  getClassTeachers: SAFETY_LEVELS.SAFE,
+  getSchoolyearDataOfClass: SAFETY_LEVELS.SAFE,
+  getStudentCareer: SAFETY_LEVELS.SAFE,
+  getUserOfficialClass: SAFETY_LEVELS.SAFE,
+  getAccountPhoto: SAFETY_LEVELS.SAFE,
+  getAllAccounts: SAFETY_LEVELS.SAFE,
+  getAllAccountsExtended: SAFETY_LEVELS.SAFE,
+  getAllGroupsAndClasses: SAFETY_LEVELS.SAFE,
+  getClassList: SAFETY_LEVELS.SAFE,
+  getClassListJson: SAFETY_LEVELS.SAFE,
+  getHelpdeskMiniDbItems: SAFETY_LEVELS.SAFE,
+  getCourses: SAFETY_LEVELS.SAFE,
+  returnJsonErrorCodes: SAFETY_LEVELS.SAFE,
+  returnCsvErrorCodes: SAFETY_LEVELS.SAFE,
+  checkStatus: SAFETY_LEVELS.SAFE,
+  getReferenceField: SAFETY_LEVELS.SAFE,
+  getSkoreClassTeacherCourseRelation: SAFETY_LEVELS.SAFE,
+
+  // MODERATE - Reversible modifications
+  sendMsg: SAFETY_LEVELS.MODERATE,
+  saveSignature: SAFETY_LEVELS.MODERATE,
+  setAccountPhoto: SAFETY_LEVELS.MODERATE,
+  saveUserParameter: SAFETY_LEVELS.MODERATE,
+  changeUsername: SAFETY_LEVELS.MODERATE,
+  changeInternNumber: SAFETY_LEVELS.MODERATE,
+  replaceInum: SAFETY_LEVELS.MODERATE,
+  savePassword: SAFETY_LEVELS.MODERATE,
+  changePasswordAtNextLogin: SAFETY_LEVELS.MODERATE,
+  forcePasswordReset: SAFETY_LEVELS.MODERATE,
+  saveUserToClass: SAFETY_LEVELS.MODERATE,
+  saveUserToClasses: SAFETY_LEVELS.MODERATE,
+  saveUserToClassesAndGroups: SAFETY_LEVELS.MODERATE,
+  removeUserFromGroup: SAFETY_LEVELS.MODERATE,
+  addHelpdeskTicket: SAFETY_LEVELS.MODERATE,
+  setAccountStatus: SAFETY_LEVELS.MODERATE,
+
+  // DESTRUCTIVE - High impact, potentially irreversible
+  saveUser: SAFETY_LEVELS.DESTRUCTIVE, // Creates/modifies users
+  saveClass: SAFETY_LEVELS.DESTRUCTIVE, // Creates/modifies classes
+  saveGroup: SAFETY_LEVELS.DESTRUCTIVE, // Creates/modifies groups
+  addCourse: SAFETY_LEVELS.DESTRUCTIVE, // Creates courses
+  addCourseStudents: SAFETY_LEVELS.DESTRUCTIVE,
+  addCourseTeacher: SAFETY_LEVELS.DESTRUCTIVE,
+  changeGroupOwners: SAFETY_LEVELS.DESTRUCTIVE,
+  saveClassList: SAFETY_LEVELS.DESTRUCTIVE,
+  saveClassListJson: SAFETY_LEVELS.DESTRUCTIVE,
+  saveSchoolyearDataOfClass: SAFETY_LEVELS.DESTRUCTIVE,
+  removeCoAccount: SAFETY_LEVELS.DESTRUCTIVE,
+
+  // CRITICAL - System-level changes
+  delUser: SAFETY_LEVELS.CRITICAL, // Deletes users permanently
+  delClass: SAFETY_LEVELS.CRITICAL, // Deletes classes permanently
+  clearGroup: SAFETY_LEVELS.CRITICAL, // Removes all users from group
+  unregisterStudent: SAFETY_LEVELS.CRITICAL, // Unregisters students
+  startSkoreSync: SAFETY_LEVELS.CRITICAL, // System synchronization
+  deactivateTwoFactorAuthentication: SAFETY_LEVELS.CRITICAL,
+};
+
+/**
+ * Safety level of a method. Methods missing from METHOD_SAFETY (for example
+ * endpoints added by a smartschool-kit upgrade) are treated as CRITICAL.
+ */
+export function getSafetyLevel(methodName: string): SafetyLevel {
+  return METHOD_SAFETY[methodName] ?? SAFETY_LEVELS.CRITICAL;
+}
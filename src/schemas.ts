@@ -17,6 +17,17 @@ import { z } from "zod";
 // BASE SCHEMAS
 // =============================================================================
 
+const SENSITIVE_SCHEMAS = new WeakSet<z.ZodTypeAny>();
+
+/**
+ * Mark a parameter whose value must never be logged or audited (secrets and
+ * base64 blobs). See SENSITIVE_PARAMS.
+ */
+function sensitive<T extends z.ZodTypeAny>(schema: T): T {
+  SENSITIVE_SCHEMAS.add(schema);
+  return schema;
+}
+
 const UserIdentifierSchema = z.string().describe(`User identifier. Can be:
 • Username (e.g., 'john.doe' for John Doe)  
 • Internal number (e.g., '12345')
@@ -59,15 +70,41 @@ const CoAccountTypeSchema = z.number().min(0).max(6).describe(`Co-account type:
 • 3-6: Additional co-accounts`);
 
 const ConfirmationSchema = z
-  .literal(true)
-  .describe("🔥 REQUIRED: Set to true to confirm this destructive operation");
+  .string()
+  .optional()
+  .describe(
+    "🔥 Confirmation token issued by the server. Omit it on the first call: you get a summary and a single-use token bound to these exact parameters. Repeat the call with identical parameters plus this token to execute.",
+  );
+
+export const CriticalConfirmationSchema = z
+  .string()
+  .optional()
+  .describe(
+    "💀 Confirmation token issued by the server for this CRITICAL operation that may permanently delete data. Omit it on the first call: you get a summary and a single-use token bound to these exact parameters. Repeat the call with identical parameters plus this token to execute.",
+  );
 
-const CriticalConfirmationSchema = z
-  .literal(true)
+const DryRunSchema = z
+  .boolean()
+  .optional()
   .describe(
-    "💀 REQUIRED: Set to true to confirm this CRITICAL operation that may permanently delete data",
+    "🔍 Set to true to preview the impact (built from read methods) without changing anything.",
   );
 
+/**
+ * A file as MCP clients embed a resource; see uploads.ts
+ */
+export const FileResourceSchema = z
+  .object({
+    uri: z
+      .string()
+      .describe("Resource URI; a file:// URI without blob is read from disk"),
+    mimeType: z.string().optional(),
+    blob: z.string().optional().describe("Base64 encoded file contents"),
+  })
+  .describe("MCP resource holding the file");
+
+export type FileResource = z.infer<typeof FileResourceSchema>;
+
 // =============================================================================
 // USER MANAGEMENT SCHEMAS
 // =============================================================================
@@ -103,10 +140,9 @@ export const SaveUserSchema = z.object({
   name: z.string().describe("First name of the user"),
   surname: z.string().describe("Last name of the user"),
   basisrol: UserRoleSchema,
-  passwd1: z
-    .string()
-    .optional()
-    .describe("Primary password (required for new users)"),
+  passwd1: sensitive(
+    z.string().optional().describe("Primary password (required for new users)"),
+  ),
   internnumber: z.string().optional().describe("Internal number identifier"),
   extranames: z.string().optional().describe("Additional names of the user"),
   initials: z.string().optional().describe("User's initials"),
@@ -130,15 +166,16 @@ export const SaveUserSchema = z.object({
   phone: z.string().optional().describe("Phone number"),
   mobile: z.string().optional().describe("Mobile phone number"),
   email: z.string().email().optional().describe("Email address"),
-  passwd2: z.string().optional().describe("Secondary password"),
-  passwd3: z.string().optional().describe("Tertiary password"),
-  confirmDestructiveAction: ConfirmationSchema,
+  passwd2: sensitive(z.string().optional().describe("Secondary password")),
+  passwd3: sensitive(z.string().optional().describe("Tertiary password")),
+  confirmationToken: ConfirmationSchema,
 });
 
 export const DelUserSchema = z.object({
   userIdentifier: UserIdentifierSchema,
   officialDate: OfficialDateSchema,
-  confirmDestructiveAction: CriticalConfirmationSchema,
+  dryRun: DryRunSchema,
+  confirmationToken: CriticalConfirmationSchema,
 });
 
 export const SetAccountStatusSchema = z.object({
@@ -167,7 +204,9 @@ export const ReplaceInumSchema = z.object({
 
 export const SavePasswordSchema = z.object({
   userIdentifier: UserIdentifierSchema,
-  password: z.string().describe("The new password to set for the user"),
+  password: sensitive(
+    z.string().describe("The new password to set for the user"),
+  ),
   accountType: CoAccountTypeSchema,
   changePasswordAtNextLogin: z
     .number()
@@ -203,7 +242,7 @@ export const SaveUserParameterSchema = z.object({
 export const RemoveCoAccountSchema = z.object({
   userIdentifier: UserIdentifierSchema,
   accountType: CoAccountTypeSchema,
-  confirmDestructiveAction: ConfirmationSchema,
+  confirmationToken: ConfirmationSchema,
 });
 
 export const GetUserOfficialClassSchema = z.object({
@@ -218,7 +257,8 @@ export const GetStudentCareerSchema = z.object({
 export const UnregisterStudentSchema = z.object({
   userIdentifier: UserIdentifierSchema,
   officialDate: OfficialDateSchema,
-  confirmDestructiveAction: CriticalConfirmationSchema,
+  dryRun: DryRunSchema,
+  confirmationToken: CriticalConfirmationSchema,
 });
 
 // =============================================================================
@@ -249,7 +289,7 @@ export const SaveClassSchema = z.object({
     .describe(
       "Optional school year date, format: YYYY-MM-DD, defaults to current school year",
     ),
-  confirmDestructiveAction: ConfirmationSchema,
+  confirmationToken: ConfirmationSchema,
 });
 
 export const SaveGroupSchema = z.object({
@@ -258,12 +298,13 @@ export const SaveGroupSchema = z.object({
   code: ClassCodeSchema,
   parent: z.string().describe("The parent group code"),
   untis: z.string().describe("The Untis identifier"),
-  confirmDestructiveAction: ConfirmationSchema,
+  confirmationToken: ConfirmationSchema,
 });
 
 export const DelClassSchema = z.object({
   code: ClassCodeSchema,
-  confirmDestructiveAction: CriticalConfirmationSchema,
+  dryRun: DryRunSchema,
+  confirmationToken: CriticalConfirmationSchema,
 });
 
 export const GetAllAccountsSchema = z.object({
@@ -314,12 +355,14 @@ export const RemoveUserFromGroupSchema = z.object({
 export const ClearGroupSchema = z.object({
   group: z.string().describe("Group code to clear"),
   officialDate: OfficialDateSchema,
-  confirmDestructiveAction: CriticalConfirmationSchema,
+  dryRun: DryRunSchema,
+  confirmationToken: CriticalConfirmationSchema,
 });
 
 export const ChangeGroupOwnersSchema = z.object({
   code: ClassCodeSchema.describe("Target class or group code to modify owners"),
   userlist: z.string().describe("Comma-separated list of user identifiers"),
+  confirmationToken: ConfirmationSchema,
 });
 
 export const GetClassTeachersSchema = z.object({
@@ -349,42 +392,69 @@ export const SaveSchoolyearDataOfClassSchema = z.object({
   residence: z.string().describe("The residence location"),
   domain: z.string().describe("The domain of study"),
   principal: z.string().describe("The principal's name or identifier"),
-  confirmDestructiveAction: ConfirmationSchema,
+  confirmationToken: ConfirmationSchema,
 });
 
 export const SaveClassListSchema = z.object({
   serializedList: z
     .string()
     .describe("Serialized list of classes in CSV format"),
-  confirmDestructiveAction: ConfirmationSchema,
+  dryRun: DryRunSchema,
+  confirmationToken: ConfirmationSchema,
 });
 
 export const SaveClassListJsonSchema = z.object({
   jsonList: z
     .string()
     .describe("Serialized array containing the list of classes"),
-  confirmDestructiveAction: ConfirmationSchema,
+  confirmationToken: ConfirmationSchema,
 });
 
 // =============================================================================
 // COMMUNICATION SCHEMAS
 // =============================================================================
 
+const BodyFormatSchema = z
+  .enum(["html", "markdown"])
+  .optional()
+  .describe(
+    "Format of the body: 'html' (default, sent as written) or 'markdown' (converted to sanitized HTML)",
+  );
+
+const AttachmentPathsSchema = z
+  .array(z.string())
+  .optional()
+  .describe(
+    "Files to attach, as paths on the machine running the server inside UPLOAD_DIRS (PDF, Office, OpenDocument, text, CSV, RTF, JPEG, PNG, GIF or ZIP)",
+  );
+
+const AttachmentResourcesSchema = sensitive(
+  z
+    .array(FileResourceSchema)
+    .optional()
+    .describe("Files to attach, as MCP resources"),
+);
+
 export const SendMsgSchema = z.object({
   userIdentifier: UserIdentifierSchema,
   title: z.string().describe("The title/subject of the message"),
   body: z.string().describe("The body/content of the message"),
+  bodyFormat: BodyFormatSchema,
   senderIdentifier: z
     .string()
     .describe(
       "Unique identifier of the message sender. Use 'Null' string to send without specifying a sender",
     ),
-  attachments: z
-    .array(z.string())
-    .optional()
-    .describe(
-      "Optional array of file attachments. Each attachment must be base64 encoded",
-    ),
+  attachmentPaths: AttachmentPathsSchema,
+  attachmentResources: AttachmentResourcesSchema,
+  attachments: sensitive(
+    z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Base64 encoded attachments without file names; prefer attachmentPaths or attachmentResources",
+      ),
+  ),
   coaccount: CoAccountTypeSchema.optional(),
   copyToLVS: z
     .boolean()
@@ -392,6 +462,8 @@ export const SendMsgSchema = z.object({
     .describe(
       "Whether to add the message to the LVS (Student Tracking System)",
     ),
+  dryRun: DryRunSchema,
+  confirmationToken: ConfirmationSchema,
 });
 
 export const SaveSignatureSchema = z.object({
@@ -446,14 +518,14 @@ export const AddCourseSchema = z.object({
     .number()
     .optional()
     .describe("Course visibility status: 1 = Visible, 0 = Hidden"),
-  confirmDestructiveAction: ConfirmationSchema,
+  confirmationToken: ConfirmationSchema,
 });
 
 export const AddCourseStudentsSchema = z.object({
   coursename: z.string().describe("Full name of the course"),
   coursedesc: z.string().describe("Unique course code identifier"),
   groupIds: z.string().describe("Comma-separated list of class or group codes"),
-  confirmDestructiveAction: ConfirmationSchema,
+  confirmationToken: ConfirmationSchema,
 });
 
 export const AddCourseTeacherSchema = z.object({
@@ -463,7 +535,7 @@ export const AddCourseTeacherSchema = z.object({
   internnummer: z
     .string()
     .describe("Internal number identifier of the teacher"),
-  confirmDestructiveAction: ConfirmationSchema,
+  confirmationToken: ConfirmationSchema,
 });
 
 // =============================================================================
@@ -496,11 +568,21 @@ export const GetAccountPhotoSchema = z.object({
 
 export const SetAccountPhotoSchema = z.object({
   userIdentifier: UserIdentifierSchema,
-  photo: z
+  photoPath: z
     .string()
+    .optional()
     .describe(
-      "Base64 encoded photo data. Use empty string to remove existing photo",
+      "Path of a JPEG, PNG, WebP, GIF, TIFF or HEIF/AVIF image on the machine running the server, inside UPLOAD_DIRS",
     ),
+  photoResource: sensitive(FileResourceSchema.optional()),
+  photo: sensitive(
+    z
+      .string()
+      .optional()
+      .describe(
+        "Base64 encoded photo data. Use empty string to remove existing photo",
+      ),
+  ),
 });
 
 // =============================================================================
@@ -508,7 +590,7 @@ export const SetAccountPhotoSchema = z.object({
 // =============================================================================
 
 export const StartSkoreSyncSchema = z.object({
-  confirmDestructiveAction: CriticalConfirmationSchema,
+  confirmationToken: CriticalConfirmationSchema,
 });
 
 export const CheckStatusSchema = z.object({
@@ -534,9 +616,372 @@ export const GetClassListJsonSchema = z.object({});
 export const DeactivateTwoFactorAuthenticationSchema = z.object({
   userIdentifier: UserIdentifierSchema,
   accountType: CoAccountTypeSchema,
-  confirmDestructiveAction: CriticalConfirmationSchema,
+  confirmationToken: CriticalConfirmationSchema,
+});
+
+// =============================================================================
+// SERVER TOOL SCHEMAS
+// =============================================================================
+
+export const ListOptionsSchema = z.object({
+  fields: z
+    .array(z.string())
+    .min(1)
+    .optional()
+    .describe(
+      "Only return these fields of each record, e.g. ['gebruikersnaam', 'voornaam', 'naam', 'klasnaam']",
+    ),
+  filter: z
+    .record(z.union([z.string(), z.array(z.string())]))
+    .optional()
+    .describe(
+      "Only return records whose field matches, case-insensitive, with * and ? wildcards; a list matches any of its values. E.g. { basisrol: 'leerling', status: 'actief' } or { klasnaam: ['1*', '2*'] }",
+    ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe("Maximum number of records to return (default 50)"),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "Cursor from a previous response to get the next page; repeat the other parameters unchanged",
+    ),
+});
+
+export const AuditLogQuerySchema = z.object({
+  school: z
+    .string()
+    .optional()
+    .describe("Only return entries for this school (see smartschool-schools)"),
+  method: z
+    .string()
+    .optional()
+    .describe("Only return entries for this method (e.g., 'saveUserToClass')"),
+  actor: z
+    .string()
+    .optional()
+    .describe("Only return entries recorded for this actor"),
+  outcome: z
+    .enum(["success", "error", "blocked"])
+    .optional()
+    .describe("Only return entries with this outcome"),
+  since: z
+    .string()
+    .optional()
+    .describe("Earliest timestamp to include (ISO 8601, e.g., '2024-12-15')"),
+  until: z
+    .string()
+    .optional()
+    .describe("Latest timestamp to include (ISO 8601, e.g., '2024-12-16')"),
+  limit: z
+    .number()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe(
+      "Maximum number of entries to return, most recent first (default 50)",
+    ),
+});
+
+export const FindUserSchema = z.object({
+  query: z
+    .string()
+    .describe(
+      "Name, first name, last name, username or internal number to search for (e.g., 'Jan Van den Broeck', 'vandenbroeck', '12345'). Accents and spacing are ignored.",
+    ),
+  class: z
+    .string()
+    .optional()
+    .describe("Only return users in this class (e.g., '3B')"),
+  role: UserRoleSchema.optional(),
+  limit: z
+    .number()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe("Maximum number of candidates to return (default 10)"),
+});
+
+export const AttendanceRangeSchema = z.object({
+  classCode: ClassCodeSchema,
+  from: DateSchema.describe("First date of the range (YYYY-MM-DD)"),
+  to: DateSchema.describe("Last date of the range, inclusive (YYYY-MM-DD)"),
+  onlyAbsences: z
+    .boolean()
+    .optional()
+    .describe(
+      "Only include students with at least one half-day that is not '|' (present). Default true.",
+    ),
+});
+
+export const AttendanceStatsSchema = z.object({
+  userIdentifier: UserIdentifierSchema.optional().describe(
+    "Student to analyse (username or internal number). Give either this or classCode.",
+  ),
+  classCode: ClassCodeSchema.optional().describe(
+    "Class to analyse, student by student. Give either this or userIdentifier.",
+  ),
+  schoolYear: SchoolYearSchema,
+  from: DateSchema.optional().describe(
+    "Only count half-days from this date (YYYY-MM-DD)",
+  ),
+  to: DateSchema.optional().describe(
+    "Only count half-days up to this date, inclusive (YYYY-MM-DD)",
+  ),
+  unexplainedThreshold: z
+    .number()
+    .min(1)
+    .optional()
+    .describe(
+      "Flag students with at least this many unexplained ('-') half-days (default ATTENDANCE_UNEXPLAINED_THRESHOLD, 30)",
+    ),
+  lateThreshold: z
+    .number()
+    .min(1)
+    .optional()
+    .describe(
+      "Flag students who were late ('L') at least this many times (default ATTENDANCE_LATE_THRESHOLD, 10)",
+    ),
+});
+
+export const SendBulkMsgSchema = z.object({
+  code: ClassCodeSchema.describe(
+    "Class or group whose members (or their parents) receive the message",
+  ),
+  recursive: z
+    .boolean()
+    .optional()
+    .describe("Include members of subgroups (default false)"),
+  title: z
+    .string()
+    .describe(
+      "Title template, e.g. 'Afwezigheden van {firstname}'. Placeholders: {firstname}, {lastname}, {name}, {username}, {class}, {absences}, {unexplained}",
+    ),
+  body: z
+    .string()
+    .describe(
+      "Body template (HTML or Markdown, see bodyFormat) with the same placeholders as the title. Placeholder values are HTML-escaped.",
+    ),
+  bodyFormat: BodyFormatSchema,
+  attachmentPaths: AttachmentPathsSchema,
+  attachmentResources: AttachmentResourcesSchema,
+  senderIdentifier: z
+    .string()
+    .describe(
+      "Unique identifier of the message sender. Use 'Null' string to send without specifying a sender",
+    ),
+  coaccounts: z
+    .array(z.number().min(0).max(6))
+    .optional()
+    .describe(
+      "Accounts to send to per member: 0 = the member, 1 and 2 = first and second parent/guardian (default [1, 2]). Co-accounts that do not exist are skipped.",
+    ),
+  schoolYear: SchoolYearSchema.optional().describe(
+    "School year used for {absences} and {unexplained} (defaults to the current one)",
+  ),
+  copyToLVS: z
+    .boolean()
+    .optional()
+    .describe(
+      "Whether to add the messages to the LVS (Student Tracking System)",
+    ),
+  confirmationToken: ConfirmationSchema,
+});
+
+export const ImportUsersSchema = z.object({
+  csv: z
+    .string()
+    .optional()
+    .describe("CSV text with a header row. Give either this or filePath."),
+  filePath: z
+    .string()
+    .optional()
+    .describe(
+      "Path of a CSV file on the server's machine, inside UPLOAD_DIRS. Give either this or csv.",
+    ),
+  delimiter: z
+    .string()
+    .length(1)
+    .optional()
+    .describe(
+      "Column delimiter (default: ';' or ',' detected from the header)",
+    ),
+  columns: z
+    .record(z.string())
+    .optional()
+    .describe(
+      'Column mapping from field to CSV header, e.g. { "name": "Voornaam", "surname": "Familienaam", "class": "Klas" }. Fields are the saveUser parameters plus \'class\' and \'officialDate\'. Headers named like a field (or voornaam, naam, gebruikersnaam, klas, ...) map automatically.',
+    ),
+  defaults: z
+    .record(z.string())
+    .optional()
+    .describe(
+      'Values for fields that are empty or missing in the CSV, e.g. { "basisrol": "leerling" }',
+    ),
+  rows: z
+    .array(z.number().int().min(2))
+    .optional()
+    .describe(
+      "Only process these rows (spreadsheet row numbers; the header is row 1), e.g. the failed rows of a previous run",
+    ),
+  confirmationToken: ConfirmationSchema,
+});
+
+export const RolloverSchema = z.object({
+  mapping: z
+    .array(
+      z.object({
+        from: ClassCodeSchema.describe("Current class code, e.g. '1A'"),
+        to: z
+          .string()
+          .optional()
+          .describe(
+            "Class code for next school year, e.g. '2A'. Omit for a final-year class: its students leave the school.",
+          ),
+      }),
+    )
+    .min(1)
+    .describe(
+      "Class mapping table, e.g. [{ from: '1A', to: '2A' }, { from: '6WEWE' }]",
+    ),
+  officialDate: DateSchema.describe(
+    "Official date of the new class memberships, usually the first day of the new school year (YYYY-MM-DD)",
+  ),
+  leaveDate: DateSchema.optional().describe(
+    "Official date for unregistering leavers (defaults to officialDate)",
+  ),
+  overrides: z
+    .array(
+      z.object({
+        userIdentifier: UserIdentifierSchema,
+        action: z
+          .enum(["promote", "repeat", "leave", "move"])
+          .describe(
+            "'promote' follows the mapping, 'repeat' keeps the current class, 'leave' unregisters the student, 'move' places the student in 'class'",
+          ),
+        class: z.string().optional().describe("Target class for 'move'"),
+      }),
+    )
+    .optional()
+    .describe("Per-student exceptions to the mapping"),
+  confirmationToken: ConfirmationSchema,
+});
+
+export const UndoSchema = z.object({
+  id: z
+    .string()
+    .optional()
+    .describe(
+      "ID of the change to revert. Omit to list recent reversible changes.",
+    ),
+  limit: z
+    .number()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("Maximum number of changes to list (default 20)"),
 });
 
+// =============================================================================
+// OUTPUT SCHEMAS
+// =============================================================================
+
+// Smartschool adds fields per platform and version and mixes numbers and
+// strings, so output schemas name the known fields and allow the rest.
+
+const LooseStringSchema = z.union([z.string(), z.number()]).nullable();
+
+const RecordSchema = z.object({}).passthrough();
+
+const UserRecordSchema = z
+  .object({
+    gebruikersnaam: LooseStringSchema.optional().describe("Username"),
+    voornaam: LooseStringSchema.optional().describe("First name"),
+    naam: LooseStringSchema.optional().describe("Last name"),
+    internnummer: LooseStringSchema.optional().describe("Internal number"),
+    basisrol: LooseStringSchema.optional().describe(
+      "Base role (leerling, leerkracht, ...)",
+    ),
+    status: LooseStringSchema.optional().describe("Account status"),
+    klasnaam: LooseStringSchema.optional().describe("Official class"),
+  })
+  .passthrough();
+
+const GroupRecordSchema = z
+  .object({
+    code: LooseStringSchema.optional(),
+    name: LooseStringSchema.optional(),
+    desc: LooseStringSchema.optional(),
+    isKlas: z.boolean().optional().describe("Whether this is a class"),
+    isOfficial: z
+      .boolean()
+      .optional()
+      .describe("Whether this is the user's official class"),
+  })
+  .passthrough();
+
+const HalfDaySchema = z
+  .object({
+    am: LooseStringSchema.optional().describe("Morning absence code"),
+    pm: LooseStringSchema.optional().describe("Afternoon absence code"),
+  })
+  .passthrough();
+
+export const UserDetailsOutputSchema = UserRecordSchema.extend({
+  groups: z
+    .union([z.array(GroupRecordSchema), z.record(GroupRecordSchema)])
+    .optional()
+    .describe("Classes and groups the user belongs to"),
+}).passthrough();
+
+export const AccountListOutputSchema = z
+  .array(UserRecordSchema)
+  .describe("Accounts, one record per user");
+
+export const AbsencesOutputSchema = z
+  .record(z.union([HalfDaySchema, z.null()]))
+  .describe(
+    "Half-day absence codes, keyed by date (per student) or by user (per date)",
+  );
+
+export const GroupListOutputSchema = z
+  .array(GroupRecordSchema)
+  .describe("Classes and groups");
+
+export const ClassTeachersOutputSchema = z
+  .array(RecordSchema)
+  .describe("Class teachers (titularissen) per class");
+
+export const StudentCareerOutputSchema = z
+  .array(RecordSchema)
+  .describe("Class history of the student");
+
+export const CoursesOutputSchema = z.array(RecordSchema).describe("Courses");
+
+export const ErrorCodesOutputSchema = z
+  .record(z.string())
+  .describe("Error message per Smartschool error code");
+
+export const AccountPhotoOutputSchema = z
+  .object({
+    mimeType: z.string(),
+    bytes: z.number(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+  })
+  .nullable()
+  .describe(
+    "The photo itself is returned as image content; null when the account has no photo",
+  );
+
+export const MutationOutputSchema = z
+  .boolean()
+  .describe("true when Smartschool accepted the change");
+
 // =============================================================================
 // SCHEMA REGISTRY
 // =============================================================================
@@ -625,19 +1070,138 @@ export const SCHEMA_REGISTRY: Record<string, z.ZodObject<any>> = {
 };
 
 /**
- * Get schema for a method name, with fallback for unknown methods
+ * Get schema for a method name. Methods without a registered schema have no
+ * known parameters and must not be exposed.
  */
-export function getMethodSchema(methodName: string): z.ZodObject<any> {
-  return (
-    SCHEMA_REGISTRY[methodName] ||
-    z.object({
-      // Fallback schema for unknown methods
-      ...Object.fromEntries(
-        Object.entries(arguments).map(([key]) => [
-          key,
-          z.any().describe(`Parameter for ${methodName}`),
-        ]),
-      ),
-    })
-  );
+export function getMethodSchema(
+  methodName: string,
+): z.ZodObject<any> | undefined {
+  return SCHEMA_REGISTRY[methodName];
 }
+
+/**
+ * Parameter names marked sensitive() in any method schema. Their values are
+ * replaced in the audit log, confirmation summaries and log output.
+ */
+export const SENSITIVE_PARAMS: ReadonlySet<string> = new Set(
+  Object.values(SCHEMA_REGISTRY).flatMap((schema) =>
+    Object.entries(schema.shape)
+      .filter(([, field]) => SENSITIVE_SCHEMAS.has(field as z.ZodTypeAny))
+      .map(([name]) => name),
+  ),
+);
+
+/**
+ * Output schemas per method. Methods without an entry return an unspecified
+ * result.
+ */
+export const OUTPUT_SCHEMA_REGISTRY: Record<string, z.ZodTypeAny> = {
+  // Users
+  getUserDetails: UserDetailsOutputSchema,
+  getUserDetailsByNumber: UserDetailsOutputSchema,
+  getUserDetailsByUsername: UserDetailsOutputSchema,
+  getUserDetailsByScannableCode: UserDetailsOutputSchema,
+  getAllAccounts: AccountListOutputSchema,
+  getAllAccountsExtended: AccountListOutputSchema,
+  getStudentCareer: StudentCareerOutputSchema,
+  getAccountPhoto: AccountPhotoOutputSchema,
+
+  // Classes & groups
+  getAllGroupsAndClasses: GroupListOutputSchema,
+  getClassList: GroupListOutputSchema,
+  getClassListJson: GroupListOutputSchema,
+  getClassTeachers: ClassTeachersOutputSchema,
+  getCourses: CoursesOutputSchema,
+
+  // Attendance
+  getAbsents: AbsencesOutputSchema,
+  getAbsentsWithAlias: AbsencesOutputSchema,
+  getAbsentsByDate: AbsencesOutputSchema,
+  getAbsentsByDateAndGroup: AbsencesOutputSchema,
+  getAbsentsWithAliasByDate: AbsencesOutputSchema,
+  getAbsentsWithInternalNumberByDate: AbsencesOutputSchema,
+  getAbsentsWithUsernameByDate: AbsencesOutputSchema,
+
+  // System
+  returnJsonErrorCodes: ErrorCodesOutputSchema,
+
+  // Mutations
+  saveUser: MutationOutputSchema,
+  delUser: MutationOutputSchema,
+  setAccountStatus: MutationOutputSchema,
+  changeUsername: MutationOutputSchema,
+  saveUserParameter: MutationOutputSchema,
+  unregisterStudent: MutationOutputSchema,
+  saveUserToClass: MutationOutputSchema,
+  saveUserToClasses: MutationOutputSchema,
+  saveUserToClassesAndGroups: MutationOutputSchema,
+  removeUserFromGroup: MutationOutputSchema,
+  clearGroup: MutationOutputSchema,
+  saveClass: MutationOutputSchema,
+  saveGroup: MutationOutputSchema,
+  delClass: MutationOutputSchema,
+  sendMsg: MutationOutputSchema,
+  setAccountPhoto: MutationOutputSchema,
+};
+
+export const TOOL_OUTPUT_STATUSES = [
+  "success",
+  "dry_run",
+  "confirmation_required",
+  "error",
+] as const;
+
+/**
+ * Structured output of a method tool. Every response (including previews,
+ * pending confirmations and errors) carries the envelope; `result` holds the
+ * Smartschool response when it matches the method's output schema, and
+ * `unvalidatedResult` holds it otherwise.
+ */
+export function getToolOutputSchema(methodName: string) {
+  return z.object({
+    method: z.string(),
+    status: z.enum(TOOL_OUTPUT_STATUSES),
+    result: (OUTPUT_SCHEMA_REGISTRY[methodName] ?? z.unknown()).optional(),
+    unvalidatedResult: z
+      .unknown()
+      .optional()
+      .describe("Response that did not match the declared output schema"),
+    message: z.string().optional().describe("Error or status message"),
+    undoId: z
+      .string()
+      .optional()
+      .describe("ID to pass to smartschool-undo to revert this change"),
+    confirmationToken: z.string().optional(),
+    expiresAt: z.string().optional(),
+    page: z
+      .object({
+        total: z.number().describe("Records in the Smartschool response"),
+        matched: z.number().describe("Records matching the filter"),
+        offset: z.number(),
+        returned: z.number(),
+        nextCursor: z
+          .string()
+          .optional()
+          .describe("Pass as cursor to get the next page"),
+      })
+      .optional()
+      .describe("Paging of list results"),
+    redaction: z
+      .object({
+        profile: z.string(),
+        fields: z.number().describe("Non-empty fields hidden"),
+      })
+      .optional()
+      .describe("Fields hidden by the server's redaction profile"),
+    preview: z
+      .object({
+        method: z.string().optional(),
+        summary: z.string(),
+        details: z.record(z.unknown()),
+      })
+      .optional()
+      .describe("Impact preview of a dry run or pending confirmation"),
+  });
+}
+
+export type ToolOutput = z.infer<ReturnType<typeof getToolOutputSchema>>;
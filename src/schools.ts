@@ -0,0 +1,340 @@
+import { readFileSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SmartschoolClient } from "@abrianto/smartschool-kit";
+import { z } from "zod";
+import { CACHE_ENABLED, CACHE_FILE, createReadCache } from "./cache.js";
+import type { ReadCache } from "./cache.js";
+import { type ClientCall, createClientCall } from "./client.js";
+import { METHOD_CONTEXT } from "./context.js";
+import {
+  type Policy,
+  type PolicyDecision,
+  checkParamConstraints,
+  createDefaultPolicy,
+  evaluatePolicy,
+  loadPolicy,
+} from "./policy.js";
+import { getSafetyLevel } from "./safety.js";
+import { createUserIndex, type UserIndex } from "./users.js";
+
+/**
+ * @file Several Smartschool platforms (schools) in one server
+ *
+ * SMARTSCHOOL_SCHOOLS_FILE lists named platforms, each with its own endpoint,
+ * access code, policy, read cache and user index. Every tool then takes a
+ * 'school' parameter, optional when the file names a default school. Without
+ * the file, SMARTSCHOOL_API_ENDPOINT and SMARTSCHOOL_ACCESS_CODE configure a
+ * single school and tools keep their parameters unchanged.
+ *
+ * POLICY_FILE and ALLOW_DESTRUCTIVE apply to schools that do not set their
+ * own policyFile or allowDestructive.
+ */
+
+export const SMARTSCHOOL_SCHOOLS_FILE = process.env.SMARTSCHOOL_SCHOOLS_FILE;
+
+const SMARTSCHOOL_API_ENDPOINT = process.env.SMARTSCHOOL_API_ENDPOINT;
+const SMARTSCHOOL_ACCESS_CODE = process.env.SMARTSCHOOL_ACCESS_CODE;
+const ALLOW_DESTRUCTIVE = process.env.ALLOW_DESTRUCTIVE === "true";
+const POLICY_FILE = process.env.POLICY_FILE;
+
+const SINGLE_SCHOOL_NAME = "default";
+
+const SchoolConfigSchema = z
+  .object({
+    description: z.string().optional(),
+    apiEndpoint: z.string().url(),
+    accessCode: z.string().optional(),
+    /** Environment variable holding the access code, to keep it out of the file */
+    accessCodeEnv: z.string().optional(),
+    policyFile: z.string().optional(),
+    allowDestructive: z.boolean().optional(),
+    cacheFile: z.string().optional(),
+  })
+  .refine(
+    (school) => school.accessCode || school.accessCodeEnv,
+    "A school needs 'accessCode' or 'accessCodeEnv'",
+  );
+
+const SchoolsFileSchema = z.object({
+  default: z.string().optional(),
+  schools: z
+    .record(
+      z
+        .string()
+        .regex(
+          /^[a-z0-9][a-z0-9_-]*$/,
+          "School names use lowercase letters, digits, '-' and '_'",
+        ),
+      SchoolConfigSchema,
+    )
+    .refine(
+      (schools) => Object.keys(schools).length > 0,
+      "Configure at least one school",
+    ),
+});
+
+type SchoolConfig = z.infer<typeof SchoolConfigSchema>;
+
+export type AuthorizeCall = (
+  methodName: string,
+  params: Record<string, unknown>,
+) => { allowed: boolean; reason?: string };
+
+export interface School {
+  name: string;
+  description?: string;
+  apiEndpoint: string;
+  client: SmartschoolClient;
+  policy: Policy;
+  cache?: ReadCache;
+  call: ClientCall;
+  userIndex: UserIndex;
+  /** Whether the school's policy exposes a method */
+  isAllowed: (methodName: string) => PolicyDecision;
+  /** Check a concrete call, including parameter constraints */
+  authorize: AuthorizeCall;
+}
+
+/** Tool parameter selecting the school; empty with a single school */
+export type SchoolParam = { school: z.ZodOptional<z.ZodType<string>> };
+
+export interface Schools {
+  all: School[];
+  defaultSchool?: School;
+  /** True when tools take a 'school' parameter */
+  multiple: boolean;
+  param: SchoolParam;
+  /** The school a tool call targets, or why it cannot be determined */
+  resolve: (name?: string) => School | { error: string };
+  /** Allowed when at least one school's policy allows the method */
+  isAllowed: (methodName: string) => PolicyDecision;
+}
+
+function readSchoolsFile(file: string): z.infer<typeof SchoolsFileSchema> {
+  const parsed = SchoolsFileSchema.safeParse(
+    JSON.parse(readFileSync(file, "utf8")),
+  );
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid schools file ${file}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Cache file for one of several schools: CACHE_FILE with the school name
+ * prepended to the file name
+ */
+function cacheFileFor(name: string, config: SchoolConfig, multiple: boolean) {
+  if (config.cacheFile || !CACHE_FILE || !multiple) {
+    return config.cacheFile ?? CACHE_FILE;
+  }
+  return join(dirname(CACHE_FILE), `${name}-${basename(CACHE_FILE)}`);
+}
+
+function createSchool(
+  name: string,
+  config: SchoolConfig,
+  multiple: boolean,
+): School {
+  const accessCode =
+    config.accessCode ??
+    (config.accessCodeEnv ? process.env[config.accessCodeEnv] : undefined);
+  if (!accessCode) {
+    throw new Error(
+      `School '${name}': environment variable ${config.accessCodeEnv} is not set`,
+    );
+  }
+
+  let client: SmartschoolClient;
+  try {
+    client = new SmartschoolClient({
+      apiEndpoint: config.apiEndpoint,
+      accesscode: accessCode,
+    });
+  } catch (error: any) {
+    throw new Error(
+      `Failed to initialize SmartschoolClient for '${name}': ${error?.message ?? error}`,
+    );
+  }
+
+  // A policy file replaces ALLOW_DESTRUCTIVE
+  const policyFile = config.policyFile ?? POLICY_FILE;
+  const policy = policyFile
+    ? loadPolicy(policyFile)
+    : createDefaultPolicy(config.allowDestructive ?? ALLOW_DESTRUCTIVE);
+
+  const cache = CACHE_ENABLED
+    ? createReadCache(cacheFileFor(name, config, multiple))
+    : undefined;
+  const call = createClientCall(client, {
+    cache,
+    label: multiple ? name : undefined,
+    // Any change may rename, add or move accounts
+    onMutation: () => userIndex.invalidate(),
+  });
+  const userIndex = createUserIndex(call);
+
+  const isAllowed = (methodName: string) =>
+    evaluatePolicy(policy, {
+      method: methodName,
+      category: METHOD_CONTEXT[methodName]?.category ?? "General",
+      safetyLevel: getSafetyLevel(methodName),
+    });
+
+  return {
+    name,
+    description: config.description,
+    apiEndpoint: config.apiEndpoint,
+    client,
+    policy,
+    cache,
+    call,
+    userIndex,
+    isAllowed,
+    authorize: (methodName, params) => {
+      const decision = isAllowed(methodName);
+      return decision.allowed
+        ? checkParamConstraints(policy, methodName, params)
+        : decision;
+    },
+  };
+}
+
+/**
+ * Load the configured schools. Throws on an invalid configuration so the
+ * server never starts with a school it cannot reach or police.
+ */
+export function loadSchools(
+  file: string | undefined = SMARTSCHOOL_SCHOOLS_FILE,
+): Schools {
+  let configs: [string, SchoolConfig][];
+  let defaultName: string | undefined;
+  if (file) {
+    const parsed = readSchoolsFile(file);
+    configs = Object.entries(parsed.schools);
+    defaultName =
+      parsed.default ?? (configs.length === 1 ? configs[0][0] : undefined);
+    if (defaultName && !parsed.schools[defaultName]) {
+      throw new Error(
+        `Invalid schools file ${file}: default school '${defaultName}' is not configured`,
+      );
+    }
+  } else {
+    if (!SMARTSCHOOL_API_ENDPOINT || !SMARTSCHOOL_ACCESS_CODE) {
+      throw new Error(
+        "Missing SMARTSCHOOL_API_ENDPOINT or SMARTSCHOOL_ACCESS_CODE environment variables (or SMARTSCHOOL_SCHOOLS_FILE).",
+      );
+    }
+    configs = [
+      [
+        SINGLE_SCHOOL_NAME,
+        {
+          apiEndpoint: SMARTSCHOOL_API_ENDPOINT,
+          accessCode: SMARTSCHOOL_ACCESS_CODE,
+        },
+      ],
+    ];
+    defaultName = SINGLE_SCHOOL_NAME;
+  }
+
+  const multiple = configs.length > 1;
+  const all = configs.map(([name, config]) =>
+    createSchool(name, config, multiple),
+  );
+  const byName = new Map(all.map((school) => [school.name, school]));
+  const defaultSchool = defaultName ? byName.get(defaultName) : undefined;
+  const names = all.map((school) => school.name);
+
+  const param = multiple
+    ? {
+        school: z
+          .enum(names as [string, ...string[]])
+          .optional()
+          .describe(
+            `Smartschool platform to use: ${names.join(", ")}. ${defaultSchool ? `Defaults to '${defaultSchool.name}'.` : "Required."} smartschool-schools describes them.`,
+          ),
+      }
+    : {};
+
+  return {
+    all,
+    defaultSchool,
+    multiple,
+    param: param as SchoolParam,
+    resolve: (name) => {
+      if (!name) {
+        return (
+          defaultSchool ?? {
+            error: `🏫 Several schools are configured and none is the default. Pass school: one of ${names.join(", ")}.`,
+          }
+        );
+      }
+      return (
+        byName.get(name) ?? {
+          error: `🏫 Unknown school '${name}'. Configured: ${names.join(", ")}.`,
+        }
+      );
+    },
+    isAllowed: (methodName) => {
+      const decisions = all.map((school) => school.isAllowed(methodName));
+      if (!multiple) return decisions[0];
+
+      const allowed = decisions.filter((decision) => decision.allowed);
+      if (allowed.length > 0) {
+        return {
+          allowed: true,
+          explicit: allowed.some((decision) => decision.explicit),
+        };
+      }
+      return {
+        allowed: false,
+        reason: decisions
+          .map((decision, index) => `${names[index]}: ${decision.reason}`)
+          .join(" "),
+        explicit: decisions.every((decision) => decision.explicit),
+      };
+    },
+  };
+}
+
+/**
+ * Register the read-only tool that lists the configured schools
+ */
+export function registerSchoolsTool(server: McpServer, schools: Schools) {
+  server.tool(
+    "smartschool-schools",
+    `
+List the Smartschool platforms (schools) this server is connected to
+
+🎯 Use Case: Find out which schools you can work with, and how each is configured
+📂 Category: Administration
+💡 Examples: Which schools can you access?, Which school is used when I don't name one?
+
+Returns each school's name (the value for the 'school' parameter of the other tools), description, web service endpoint, whether it is the default, its policy source and whether its read cache is on. Access codes are never shown.
+    `.trim(),
+    {},
+    async () => {
+      const listed = schools.all.map((school) => ({
+        name: school.name,
+        ...(school.description ? { description: school.description } : {}),
+        apiEndpoint: school.apiEndpoint,
+        default: school === schools.defaultSchool,
+        policy: school.policy.source,
+        readCache: Boolean(school.cache),
+      }));
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `🏫 ${listed.length} school(s)${schools.multiple ? "; pass the name as 'school' to the other tools" : ""}:\n${JSON.stringify(listed, null, 2)}`,
+          },
+        ],
+      };
+    },
+  );
+}
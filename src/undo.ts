@@ -0,0 +1,565 @@
+import { createHash, randomBytes } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { callWithAudit, isAuditAdmin, redactParams } from "./audit.js";
+import type { ClientCall } from "./client.js";
+import { logger } from "./logger.js";
+import { pickField } from "./records.js";
+import { UndoSchema } from "./schemas.js";
+import type { Schools } from "./schools.js";
+
+/**
+ * @file Undo journal for reversible MODERATE changes
+ *
+ * Before an undoable method runs, the relevant state is read fresh from
+ * Smartschool and turned into an inverse operation plus the state expected
+ * right after the change. smartschool-undo lists those changes and reverts
+ * one, but only when the current state still matches what the change left
+ * behind, so a later edit is never silently overwritten.
+ *
+ * The journal keeps the call parameters redacted like the audit log, and a
+ * changed user parameter only as a hash; the inverse operation holds what is
+ * needed to restore the previous value. Password-like user parameters are
+ * never journaled. Over HTTP, users only see and undo their own changes,
+ * except the users in AUDIT_ADMINS.
+ */
+
+export const UNDO_JOURNAL_FILE =
+  process.env.UNDO_JOURNAL_FILE ||
+  join(homedir(), ".smartschool-mcp", "undo.jsonl");
+
+interface Operation {
+  method: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * State the change should have left behind; checked again before reverting
+ */
+type ExpectedState =
+  | {
+      kind: "field";
+      userIdentifier: string;
+      field: string;
+      value: string;
+      /** The value is a digest (see hashValue), not the value itself */
+      hashed?: boolean;
+    }
+  | {
+      kind: "membership";
+      userIdentifier: string;
+      code: string;
+      member: boolean;
+    }
+  | { kind: "username"; internNumber: string; username: string };
+
+export interface PreparedUndo {
+  method: string;
+  params: Record<string, unknown>;
+  summary: string;
+  inverse: Operation;
+  expected: ExpectedState;
+}
+
+interface UndoEntry extends PreparedUndo {
+  type: "change";
+  id: string;
+  timestamp: string;
+  actor?: string;
+  /** School the change was made in; reverted there too */
+  school?: string;
+}
+
+interface UndoneEntry {
+  type: "undone";
+  id: string;
+  timestamp: string;
+  actor?: string;
+}
+
+function errorResult(text: string) {
+  return {
+    content: [{ type: "text" as const, text }],
+    isError: true,
+  };
+}
+
+function parseObject(result: unknown): Record<string, any> {
+  let data = result;
+  if (typeof data === "string") {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return {};
+    }
+  }
+  return data && typeof data === "object" ? (data as Record<string, any>) : {};
+}
+
+async function getDetails(
+  call: ClientCall,
+  userIdentifier: string,
+): Promise<Record<string, any>> {
+  return parseObject(
+    await call("getUserDetails", { userIdentifier }, { fresh: true }),
+  );
+}
+
+/**
+ * Class and group codes from a getUserDetails response, and the official
+ * class if there is one
+ */
+function memberships(details: Record<string, any>): {
+  codes: string[];
+  officialClass?: string;
+} {
+  const groups = Array.isArray(details.groups)
+    ? details.groups
+    : Object.values(parseObject(details.groups));
+  const codes: string[] = [];
+  let officialClass: string | undefined;
+  for (const group of groups) {
+    if (!group || typeof group !== "object") continue;
+    const code = pickField(group, ["code", "klascode"]);
+    if (!code) continue;
+    codes.push(code);
+    if (
+      !officialClass &&
+      (group.isOfficial === true || group.isKlas === true)
+    ) {
+      officialClass = code;
+    }
+  }
+  return { codes, officialClass };
+}
+
+/** User parameters whose values never go into the journal */
+const SECRET_PARAM = /passw|secret|token|pincode/i;
+
+function hashValue(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function sameCode(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Whether a code is an official class rather than a group, or undefined
+ * when getAllGroupsAndClasses does not list it
+ */
+async function isOfficialClass(
+  call: ClientCall,
+  code: string,
+): Promise<boolean | undefined> {
+  const find = (value: unknown): Record<string, any> | undefined => {
+    if (!value || typeof value !== "object") return undefined;
+    const record = value as Record<string, any>;
+    const recordCode = pickField(record, ["code", "klascode"]);
+    if (recordCode && sameCode(recordCode, code)) return record;
+    for (const child of Object.values(record)) {
+      const found = find(child);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  const group = find(parseObject(await call("getAllGroupsAndClasses", {})));
+  return group ? group.isKlas === true || group.isOfficial === true : undefined;
+}
+
+/** Status values Smartschool accepts in English but reports in Dutch */
+const STATUS_ALIASES: Record<string, string> = {
+  active: "actief",
+  inactive: "niet actief",
+  "not active": "niet actief",
+  administrative: "administratief",
+};
+
+function normalizeStatus(status: string): string {
+  const value = status.trim().toLowerCase().replace(/\s+/g, " ");
+  return STATUS_ALIASES[value] ?? value;
+}
+
+type UndoBuilder = (
+  call: ClientCall,
+  params: Record<string, any>,
+) => Promise<Omit<PreparedUndo, "method" | "params"> | undefined>;
+
+const UNDO_BUILDERS: Record<string, UndoBuilder> = {
+  setAccountStatus: async (call, { userIdentifier, accountStatus }) => {
+    const before = pickField(await getDetails(call, userIdentifier), [
+      "status",
+      "accountStatus",
+    ]);
+    if (!before) return undefined;
+    return {
+      summary: `Account status of ${userIdentifier}: '${before}' → '${accountStatus}'`,
+      inverse: {
+        method: "setAccountStatus",
+        params: { userIdentifier, accountStatus: before },
+      },
+      expected: {
+        kind: "field",
+        userIdentifier,
+        field: "status",
+        value: normalizeStatus(String(accountStatus)),
+      },
+    };
+  },
+
+  saveUserParameter: async (
+    call,
+    { userIdentifier, paramName, paramValue },
+  ) => {
+    if (SECRET_PARAM.test(paramName)) return undefined;
+    const details = await getDetails(call, userIdentifier);
+    if (details[paramName] === undefined || details[paramName] === null) {
+      return undefined;
+    }
+    const before = String(details[paramName]);
+    return {
+      summary: `${paramName} of ${userIdentifier} changed`,
+      inverse: {
+        method: "saveUserParameter",
+        params: { userIdentifier, paramName, paramValue: before },
+      },
+      expected: {
+        kind: "field",
+        userIdentifier,
+        field: paramName,
+        value: hashValue(String(paramValue)),
+        hashed: true,
+      },
+    };
+  },
+
+  saveUserToClass: async (
+    call,
+    { userIdentifier, class: code, officialDate },
+  ) => {
+    const before = memberships(await getDetails(call, userIdentifier));
+    if (before.codes.some((existing) => sameCode(existing, code))) {
+      return undefined;
+    }
+    // Only an official class replaces the current one; a group is added
+    const official = await isOfficialClass(call, code);
+    if (official === undefined) return undefined;
+    const previousClass = official ? before.officialClass : undefined;
+    const dated = officialDate ? { officialDate } : {};
+    return {
+      summary: `${userIdentifier} added to ${code}${previousClass ? ` (was in ${previousClass})` : ""}`,
+      inverse: previousClass
+        ? {
+            method: "saveUserToClass",
+            params: { userIdentifier, class: previousClass, ...dated },
+          }
+        : {
+            method: "removeUserFromGroup",
+            params: { userIdentifier, class: code, ...dated },
+          },
+      expected: { kind: "membership", userIdentifier, code, member: true },
+    };
+  },
+
+  removeUserFromGroup: async (
+    call,
+    { userIdentifier, class: code, officialDate },
+  ) => {
+    const before = memberships(await getDetails(call, userIdentifier));
+    if (!before.codes.some((existing) => sameCode(existing, code))) {
+      return undefined;
+    }
+    return {
+      summary: `${userIdentifier} removed from ${code}`,
+      inverse: {
+        method: "saveUserToClass",
+        params: {
+          userIdentifier,
+          class: code,
+          ...(officialDate ? { officialDate } : {}),
+        },
+      },
+      expected: { kind: "membership", userIdentifier, code, member: false },
+    };
+  },
+
+  changeUsername: async (call, { internNumber, newUsername }) => {
+    const before = pickField(
+      parseObject(
+        await call(
+          "getUserDetailsByNumber",
+          { number: internNumber },
+          { fresh: true },
+        ),
+      ),
+      ["gebruikersnaam", "username"],
+    );
+    if (!before) return undefined;
+    return {
+      summary: `Username of internal number ${internNumber}: '${before}' → '${newUsername}'`,
+      inverse: {
+        method: "changeUsername",
+        params: { internNumber, newUsername: before },
+      },
+      expected: { kind: "username", internNumber, username: newUsername },
+    };
+  },
+};
+
+export const UNDOABLE_METHODS = new Set(Object.keys(UNDO_BUILDERS));
+
+/**
+ * Snapshot the state an undoable method is about to change. Returns
+ * undefined when the change cannot be reverted (e.g. the previous value is
+ * unknown or the call would not change anything).
+ */
+export async function prepareUndo(
+  call: ClientCall,
+  method: string,
+  params: Record<string, unknown>,
+): Promise<PreparedUndo | undefined> {
+  const builder = UNDO_BUILDERS[method];
+  if (!builder) return undefined;
+  try {
+    const prepared = await builder(call, params);
+    return prepared && { method, params, ...prepared };
+  } catch (error) {
+    logger.warn("⚠️ Could not snapshot state for undo", { method, error });
+    return undefined;
+  }
+}
+
+async function appendEntry(entry: UndoEntry | UndoneEntry) {
+  await mkdir(dirname(UNDO_JOURNAL_FILE), { recursive: true });
+  await appendFile(UNDO_JOURNAL_FILE, `${JSON.stringify(entry)}\n`, "utf8");
+}
+
+/**
+ * Record a change that succeeded; returns its undo ID
+ */
+export async function recordUndo(
+  prepared: PreparedUndo,
+  actor?: string,
+  school?: string,
+): Promise<string | undefined> {
+  const id = randomBytes(4).toString("hex");
+  try {
+    await appendEntry({
+      type: "change",
+      id,
+      timestamp: new Date().toISOString(),
+      ...(actor ? { actor } : {}),
+      ...(school ? { school } : {}),
+      ...prepared,
+      // Only the inverse needs values; the new parameter value is hashed
+      params: {
+        ...redactParams(prepared.params),
+        ...("paramValue" in prepared.params
+          ? { paramValue: "[REDACTED]" }
+          : {}),
+      },
+    });
+    return id;
+  } catch (error) {
+    logger.error("💥 Failed to write undo journal", {
+      file: UNDO_JOURNAL_FILE,
+      error,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Changes that have not been undone yet, most recent first
+ */
+async function readOpenChanges(): Promise<UndoEntry[]> {
+  let contents: string;
+  try {
+    contents = await readFile(UNDO_JOURNAL_FILE, "utf8");
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const changes = new Map<string, UndoEntry>();
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry: UndoEntry | UndoneEntry = JSON.parse(line);
+      if (entry.type === "change") changes.set(entry.id, entry);
+      else changes.delete(entry.id);
+    } catch {
+      // Skip torn lines
+    }
+  }
+  return [...changes.values()].reverse();
+}
+
+/**
+ * Compare the current state with what the change left behind
+ */
+async function checkState(
+  call: ClientCall,
+  expected: ExpectedState,
+): Promise<{ unchanged: boolean; current: string }> {
+  if (expected.kind === "username") {
+    const current = pickField(
+      parseObject(
+        await call(
+          "getUserDetailsByNumber",
+          { number: expected.internNumber },
+          { fresh: true },
+        ),
+      ),
+      ["gebruikersnaam", "username"],
+    );
+    return { unchanged: current === expected.username, current };
+  }
+
+  const details = await getDetails(call, expected.userIdentifier);
+  if (expected.kind === "field") {
+    if (expected.field === "status") {
+      const current = pickField(details, ["status", "accountStatus"]);
+      return {
+        unchanged: normalizeStatus(current) === normalizeStatus(expected.value),
+        current,
+      };
+    }
+    const current = pickField(details, [expected.field]);
+    return {
+      unchanged:
+        (expected.hashed ? hashValue(current) : current) === expected.value,
+      current: expected.hashed ? "a different value" : current,
+    };
+  }
+
+  const { codes } = memberships(details);
+  const member = codes.some((code) => sameCode(code, expected.code));
+  return {
+    unchanged: member === expected.member,
+    current: `member of ${codes.join(", ") || "no classes or groups"}`,
+  };
+}
+
+/**
+ * Register the undo tool on an MCP server
+ */
+export function registerUndoTool(server: McpServer, schools: Schools) {
+  server.tool(
+    "smartschool-undo",
+    `
+List recent reversible changes, or revert one of them
+
+🎯 Use Case: Correct a mistaken change, such as a student placed in the wrong class
+📂 Category: Administration
+💡 Examples: Undo the last class change, What can still be undone?, Revert change 3fa9c21b
+
+Changes made with ${[...UNDOABLE_METHODS].join(", ")} are journaled with their inverse operation. Without 'id' this lists the changes that can still be reverted, most recent first${schools.multiple ? " (of all schools unless 'school' is given)" : ""}. A change is always reverted in the school where it was made. With 'id' the current state is checked first: if it no longer matches what the change left behind (someone changed it since), nothing is reverted. Over HTTP you only see and revert your own changes. Confirm with the user before reverting.
+    `.trim(),
+    { ...UndoSchema.shape, ...schools.param },
+    async ({ school: schoolName, id, limit = 20 }, extra) => {
+      let changes: UndoEntry[];
+      try {
+        changes = await readOpenChanges();
+      } catch (error: any) {
+        return errorResult(
+          `❌ Could not read the undo journal ${UNDO_JOURNAL_FILE}: ${error?.message ?? error}`,
+        );
+      }
+
+      // Over HTTP, users only see and undo their own changes
+      const clientId = extra.authInfo?.clientId;
+      if (!isAuditAdmin(clientId)) {
+        changes = changes.filter((change) => change.actor === clientId);
+      }
+
+      if (!id) {
+        const listed = changes
+          .filter((change) => !schoolName || change.school === schoolName)
+          .slice(0, limit)
+          .map(
+            ({ id, timestamp, actor, school, method, summary, inverse }) => ({
+              id,
+              timestamp,
+              ...(actor ? { actor } : {}),
+              ...(schools.multiple && school ? { school } : {}),
+              method,
+              summary,
+              undo: inverse,
+            }),
+          );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                listed.length > 0
+                  ? `↩️ ${listed.length} reversible change(s), most recent first:\n${JSON.stringify(listed, null, 2)}`
+                  : "↩️ No reversible changes recorded.",
+            },
+          ],
+        };
+      }
+
+      const change = changes.find((candidate) => candidate.id === id);
+      if (!change) {
+        return errorResult(
+          `❌ No reversible change with id '${id}' (unknown or already undone).`,
+        );
+      }
+
+      const school = schools.resolve(change.school);
+      if ("error" in school) return errorResult(school.error);
+      const { call, authorize } = school;
+
+      const check = authorize(change.inverse.method, change.inverse.params);
+      if (!check.allowed) {
+        return errorResult(check.reason ?? "🚫 Blocked by policy.");
+      }
+
+      try {
+        const state = await checkState(call, change.expected);
+        if (!state.unchanged) {
+          return errorResult(
+            `🚫 Not reverted: the state changed after this change (${change.summary}). Current state: ${state.current || "unknown"}. Check with the user and make the correction manually if still needed.`,
+          );
+        }
+
+        await callWithAudit(
+          call,
+          change.inverse.method,
+          change.inverse.params,
+          clientId,
+          school.name,
+        );
+      } catch (error: any) {
+        return errorResult(
+          `❌ Undo of '${id}' failed: ${error?.message ?? error}`,
+        );
+      }
+
+      await appendEntry({
+        type: "undone",
+        id,
+        timestamp: new Date().toISOString(),
+        ...(clientId ? { actor: clientId } : {}),
+      }).catch((error) =>
+        logger.error("💥 Failed to write undo journal", {
+          file: UNDO_JOURNAL_FILE,
+          error,
+        }),
+      );
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `↩️ Reverted ${id}: ${change.summary}\nRan ${change.inverse.method} ${JSON.stringify(change.inverse.params)}`,
+          },
+        ],
+      };
+    },
+  );
+}
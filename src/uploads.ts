@@ -0,0 +1,103 @@
+import { readFile, realpath, stat } from "node:fs/promises";
+import { basename, delimiter, isAbsolute, relative, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { FileResource } from "./schemas.js";
+
+/**
+ * @file Files passed to tools by local path or as an MCP resource
+ *
+ * Tools that upload to Smartschool take a path on the machine running the
+ * server, or a resource as MCP clients embed it ({uri, mimeType, blob});
+ * file:// resources are read from disk like paths. The server reads paths
+ * with its own permissions: UPLOAD_DIRS lists the directories uploads may
+ * come from. Without it the server reads no local files at all and only
+ * accepts resources with their contents as a blob.
+ */
+
+export const UPLOAD_DIRS = (process.env.UPLOAD_DIRS ?? "")
+  .split(delimiter)
+  .filter(Boolean)
+  .map((dir) => resolve(dir));
+
+export interface Upload {
+  /** File name without directories, for messages and attachments */
+  name: string;
+  data: Buffer;
+  /** MIME type declared by the resource; paths have none */
+  mimeType?: string;
+}
+
+export function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function checkSize(name: string, bytes: number, maxBytes: number) {
+  if (bytes > maxBytes) {
+    throw new Error(
+      `📦 ${name} is ${formatBytes(bytes)}; the limit is ${formatBytes(maxBytes)}.`,
+    );
+  }
+}
+
+async function readLocalFile(path: string, maxBytes: number): Promise<Upload> {
+  if (UPLOAD_DIRS.length === 0) {
+    throw new Error(
+      `🚫 Cannot read ${path}: this server reads no local files until UPLOAD_DIRS is set. Pass the file as a resource with a base64 'blob' instead.`,
+    );
+  }
+
+  let file: string;
+  try {
+    // Resolve symlinks so they cannot point outside UPLOAD_DIRS
+    file = await realpath(resolve(path));
+  } catch {
+    throw new Error(`📂 File not found: ${path}`);
+  }
+  const dirs = await Promise.all(
+    UPLOAD_DIRS.map((dir) => realpath(dir).catch(() => dir)),
+  );
+  if (
+    !dirs.some((dir) => {
+      const inside = relative(dir, file);
+      return !inside.startsWith("..") && !isAbsolute(inside);
+    })
+  ) {
+    throw new Error(
+      `🚫 ${path} is outside the upload directories (UPLOAD_DIRS: ${UPLOAD_DIRS.join(", ")}).`,
+    );
+  }
+
+  const info = await stat(file);
+  if (!info.isFile()) throw new Error(`📂 Not a file: ${path}`);
+  checkSize(basename(file), info.size, maxBytes);
+  return { name: basename(file), data: await readFile(file) };
+}
+
+/**
+ * Read a file given by local path or MCP resource, rejecting files larger
+ * than maxBytes
+ */
+export async function readUpload(
+  source: { path?: string; resource?: FileResource },
+  maxBytes: number,
+): Promise<Upload> {
+  const { path, resource } = source;
+  if (path) return readLocalFile(path, maxBytes);
+  if (!resource) throw new Error("📂 Pass a file path or a resource.");
+
+  if (resource.blob !== undefined) {
+    const data = Buffer.from(resource.blob, "base64");
+    const name = basename(resource.uri.split(/[?#]/)[0]) || "upload";
+    checkSize(name, data.length, maxBytes);
+    return { name, data, mimeType: resource.mimeType };
+  }
+  if (resource.uri.startsWith("file:")) {
+    const upload = await readLocalFile(fileURLToPath(resource.uri), maxBytes);
+    return { ...upload, mimeType: resource.mimeType };
+  }
+  throw new Error(
+    `📂 Cannot read ${resource.uri}: pass the resource with its contents as a base64 'blob', or a file:// URI.`,
+  );
+}
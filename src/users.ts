@@ -0,0 +1,262 @@
+import type { ClientCall } from "./client.js";
+import { logger } from "./logger.js";
+import { describeAccount, pickField, toRecords } from "./records.js";
+
+/**
+ * @file User search index built from getAllAccountsExtended
+ *
+ * Resolves free-form input ("Jan Van den Broeck", "jan vandenbroeck",
+ * "Véronique", an internal number) to ranked account candidates instead of
+ * guessing a username from a name.
+ */
+
+export const USER_INDEX_GROUPS = (
+  process.env.USER_INDEX_GROUPS || "Leerlingen,Personeel"
+)
+  .split(",")
+  .map((group) => group.trim())
+  .filter(Boolean);
+
+const USER_INDEX_TTL_MS =
+  (Number(process.env.USER_INDEX_TTL_SECONDS) || 900) * 1000;
+
+/** Score from which a single candidate is considered an unambiguous match */
+const CONFIDENT_MATCH_SCORE = 0.95;
+const MIN_MATCH_SCORE = 0.6;
+
+interface IndexedUser {
+  username: string;
+  firstName: string;
+  lastName: string;
+  internalNumber: string;
+  role: string;
+  className: string;
+  /** Normalized searchable tokens */
+  tokens: string[];
+  normalizedFullName: string;
+  normalizedReversedName: string;
+}
+
+export interface UserCandidate {
+  username: string;
+  firstName: string;
+  lastName: string;
+  internalNumber: string;
+  role: string;
+  className: string;
+  score: number;
+}
+
+export interface UserSearchOptions {
+  className?: string;
+  role?: string;
+  limit?: number;
+}
+
+export interface UserIndex {
+  search(query: string, options?: UserSearchOptions): Promise<UserCandidate[]>;
+  invalidate(): void;
+}
+
+/**
+ * Lowercase, strip accents and punctuation: "Van den Broeck-Émile" →
+ * "van den broeck emile"
+ */
+export function normalizeText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (b.startsWith(a) && a.length >= 3) return 0.9;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+function indexUser(record: Record<string, any>): IndexedUser {
+  const account = describeAccount(record);
+  const className = pickField(record, ["klasnaam", "klas", "klascode"]);
+  const first = normalizeText(account.firstName);
+  const last = normalizeText(account.lastName);
+
+  return {
+    ...account,
+    className,
+    tokens: [
+      ...`${first} ${last}`.split(" "),
+      // Compound last names also match without spaces ("vandenbroeck")
+      last.replace(/ /g, ""),
+      ...normalizeText(account.username).split(" "),
+    ].filter(Boolean),
+    normalizedFullName: `${first} ${last}`.trim(),
+    normalizedReversedName: `${last} ${first}`.trim(),
+  };
+}
+
+/**
+ * Score how well a normalized query matches a user, between 0 and 1
+ */
+function scoreUser(rawQuery: string, query: string, user: IndexedUser): number {
+  if (
+    rawQuery.trim().toLowerCase() === user.username.toLowerCase() ||
+    (user.internalNumber && rawQuery.trim() === user.internalNumber)
+  ) {
+    return 1;
+  }
+  if (
+    query === user.normalizedFullName ||
+    query === user.normalizedReversedName
+  ) {
+    return 0.98;
+  }
+
+  // Same letters as the username or full name, spacing aside
+  // ("jan vandenbroeck" for 'jan.vandenbroeck' or 'Jan Van den Broeck')
+  const compactQuery = query.replace(/ /g, "");
+  if (
+    compactQuery === normalizeText(user.username).replace(/ /g, "") ||
+    compactQuery === user.normalizedFullName.replace(/ /g, "")
+  ) {
+    return 0.96;
+  }
+
+  const queryTokens = query.split(" ");
+  const tokenScores = queryTokens.map((token) =>
+    Math.max(...user.tokens.map((candidate) => similarity(token, candidate))),
+  );
+  const average =
+    tokenScores.reduce((sum, score) => sum + score, 0) / tokenScores.length;
+
+  // Full-name similarity catches spacing differences in compound names
+  const fullName = Math.max(
+    similarity(compactQuery, user.normalizedFullName.replace(/ /g, "")),
+    similarity(compactQuery, user.normalizedReversedName.replace(/ /g, "")),
+  );
+
+  return Math.min(0.94, Math.max(average, fullName));
+}
+
+/**
+ * Create a lazily built, periodically refreshed user index
+ */
+export function createUserIndex(call: ClientCall): UserIndex {
+  let users: IndexedUser[] | undefined;
+  let builtAt = 0;
+  let building: Promise<IndexedUser[]> | undefined;
+
+  const build = async (): Promise<IndexedUser[]> => {
+    const seen = new Map<string, IndexedUser>();
+    for (const group of USER_INDEX_GROUPS) {
+      const records = toRecords(
+        await call("getAllAccountsExtended", { code: group, recursive: "1" }),
+      );
+      for (const record of records) {
+        const user = indexUser(record);
+        const key = user.username || user.internalNumber;
+        if (key && !seen.has(key)) seen.set(key, user);
+      }
+    }
+    logger.info("🗂️ User index built", {
+      accounts: seen.size,
+      groups: USER_INDEX_GROUPS,
+    });
+    return [...seen.values()];
+  };
+
+  const load = async (): Promise<IndexedUser[]> => {
+    if (users && Date.now() - builtAt < USER_INDEX_TTL_MS) return users;
+    building ??= build().finally(() => {
+      building = undefined;
+    });
+    users = await building;
+    builtAt = Date.now();
+    return users;
+  };
+
+  return {
+    async search(query, options = {}) {
+      const normalizedQuery = normalizeText(query);
+      if (!normalizedQuery) return [];
+
+      const className = options.className?.toLowerCase();
+      const role = options.role?.toLowerCase();
+
+      return (await load())
+        .filter(
+          (user) =>
+            (!className || user.className.toLowerCase() === className) &&
+            (!role || user.role.toLowerCase() === role),
+        )
+        .map((user) => ({
+          user,
+          score: scoreUser(query, normalizedQuery, user),
+        }))
+        .filter(({ score }) => score >= MIN_MATCH_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.limit ?? 10)
+        .map(({ user, score }) => ({
+          username: user.username,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          internalNumber: user.internalNumber,
+          role: user.role,
+          className: user.className,
+          score: Math.round(score * 100) / 100,
+        }));
+    },
+
+    invalidate() {
+      users = undefined;
+    },
+  };
+}
+
+export type UserResolution =
+  | { resolved: true; username: string; candidate: UserCandidate }
+  | { resolved: false; candidates: UserCandidate[] };
+
+/**
+ * Resolve a person's name to a username. Only succeeds when exactly one
+ * account matches confidently; otherwise the candidates are returned so the
+ * caller can ask for disambiguation.
+ */
+export async function resolveUserName(
+  index: UserIndex,
+  name: string,
+): Promise<UserResolution> {
+  const candidates = await index.search(name, { limit: 5 });
+  const [best, runnerUp] = candidates;
+
+  if (
+    best &&
+    best.score >= CONFIDENT_MATCH_SCORE &&
+    (!runnerUp || runnerUp.score < CONFIDENT_MATCH_SCORE)
+  ) {
+    return { resolved: true, username: best.username, candidate: best };
+  }
+  return { resolved: false, candidates };
+}
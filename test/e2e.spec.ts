@@ -0,0 +1,1335 @@
+import assert from "node:assert/strict";
+import { spawn, type ChildProcess } from "node:child_process";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import {
+  CallToolResultSchema,
+  type CallToolResult,
+  type ImageContent,
+  type TextContent,
+} from "@modelcontextprotocol/sdk/types.js";
+import sharp from "sharp";
+import type { ToolOutput } from "../src/schemas.js";
+import {
+  startMockSmartschool,
+  type MockSmartschool,
+} from "./mock-smartschool.js";
+
+/**
+ * @file End-to-end tests: build/mod.js over stdio and HTTP against the mock
+ * service
+ *
+ * Every suite spawns the compiled server with its own environment, so run
+ * `npm run build` first (`npm test` does).
+ */
+
+const SERVER_ENTRY = join(process.cwd(), "build", "mod.js");
+
+let mock: MockSmartschool;
+let workDir: string;
+
+before(async () => {
+  mock = await startMockSmartschool();
+  workDir = await mkdtemp(join(tmpdir(), "smartschool-mcp-e2e-"));
+});
+
+after(async () => {
+  await mock.close();
+  await rm(workDir, { recursive: true, force: true });
+});
+
+beforeEach(() => mock.reset());
+
+/**
+ * Connect an MCP client to a fresh server process
+ */
+async function connect(env: Record<string, string> = {}): Promise<Client> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER_ENTRY],
+    env: {
+      PATH: process.env.PATH ?? "",
+      SMARTSCHOOL_API_ENDPOINT: mock.url,
+      SMARTSCHOOL_ACCESS_CODE: mock.accessCode,
+      MCP_TRANSPORT: "stdio",
+      CACHE_ENABLED: "false",
+      AUDIT_LOG_FILE: join(workDir, "audit.jsonl"),
+      UNDO_JOURNAL_FILE: join(workDir, "undo.jsonl"),
+      ROLLOVER_JOURNAL_DIR: join(workDir, "rollover"),
+      ...env,
+    },
+    stderr: "ignore",
+  });
+  const client = new Client({ name: "e2e", version: "0.0.0" });
+  await client.connect(transport);
+  return client;
+}
+
+async function toolNames(client: Client): Promise<Set<string>> {
+  const { tools } = await client.listTools();
+  return new Set(tools.map((tool) => tool.name));
+}
+
+/** What client.callTool() resolves to, legacy result shape included */
+type ToolResult = Awaited<ReturnType<Client["callTool"]>>;
+
+function contentOf(result: ToolResult): CallToolResult["content"] {
+  return CallToolResultSchema.parse(result).content;
+}
+
+function textOf(result: ToolResult): string {
+  return contentOf(result)
+    .filter((item): item is TextContent => item.type === "text")
+    .map((item) => item.text)
+    .join("\n");
+}
+
+/** The structured part of a method tool result */
+function structuredOf(result: ToolResult): ToolOutput {
+  return result.structuredContent as ToolOutput;
+}
+
+describe("tool registration", () => {
+  test("default safety exposes safe and moderate methods only", async () => {
+    const client = await connect();
+    try {
+      const names = await toolNames(client);
+      assert.ok(names.has("smartschool-getUserDetails"));
+      assert.ok(names.has("smartschool-saveUserToClass"));
+      assert.ok(names.has("smartschool-audit-log"));
+      assert.ok(!names.has("smartschool-saveUser"));
+      assert.ok(!names.has("smartschool-deactivateTwoFactorAuthentication"));
+      // Previewable destructive methods stay listed in dry-run-only mode
+      assert.ok(names.has("smartschool-delUser"));
+    } finally {
+      await client.close();
+    }
+  });
+
+  test("ALLOW_DESTRUCTIVE=true exposes destructive methods", async () => {
+    const client = await connect({ ALLOW_DESTRUCTIVE: "true" });
+    try {
+      const names = await toolNames(client);
+      assert.ok(names.has("smartschool-saveUser"));
+      assert.ok(names.has("smartschool-delUser"));
+    } finally {
+      await client.close();
+    }
+  });
+
+  test("a policy file can deny individual methods", async () => {
+    const policyFile = join(workDir, "policy.json");
+    await writeFile(
+      policyFile,
+      JSON.stringify({
+        rules: [{ effect: "deny", methods: ["saveUserToClass", "sendMsg"] }],
+      }),
+    );
+    const client = await connect({ POLICY_FILE: policyFile });
+    try {
+      const names = await toolNames(client);
+      assert.ok(names.has("smartschool-getUserDetails"));
+      assert.ok(!names.has("smartschool-saveUserToClass"));
+      assert.ok(!names.has("smartschool-sendMsg"));
+      assert.ok(!names.has("smartschool-sendBulkMsg"));
+    } finally {
+      await client.close();
+    }
+  });
+
+  test("names are not looked up when the policy hides the account list", async () => {
+    const policyFile = join(workDir, "policy.json");
+    await writeFile(
+      policyFile,
+      JSON.stringify({
+        rules: [{ effect: "deny", methods: ["getAllAccountsExtended"] }],
+      }),
+    );
+    const client = await connect({ POLICY_FILE: policyFile });
+    try {
+      const read = await client.callTool({
+        name: "smartschool-getUserDetails",
+        arguments: { userIdentifier: "Emma Wouters" },
+      });
+      assert.equal(read.isError, true);
+      assert.match(textOf(read), /names cannot be looked up/);
+      assert.ok(
+        !mock.calls.some((call) => call.method === "getAllAccountsExtended"),
+      );
+    } finally {
+      await client.close();
+    }
+  });
+
+  test("parameter constraints apply to the class members resource", async () => {
+    const policyFile = join(workDir, "policy.json");
+    await writeFile(
+      policyFile,
+      JSON.stringify({
+        constraints: [
+          {
+            method: "getAllAccounts",
+            param: "code",
+            allow: ["1*"],
+            reason: "Only first-grade classes",
+          },
+        ],
+      }),
+    );
+    const client = await connect({ POLICY_FILE: policyFile });
+    try {
+      const allowed = await client.readResource({
+        uri: "smartschool://classes/1A/members",
+      });
+      assert.equal(allowed.contents.length, 1);
+      await assert.rejects(
+        client.readResource({ uri: "smartschool://classes/3B/members" }),
+        /Only first-grade classes/,
+      );
+    } finally {
+      await client.close();
+    }
+  });
+
+  test("dry runs apply parameter constraints, also to the reads of the preview", async () => {
+    const policyFile = join(workDir, "policy.json");
+    await writeFile(
+      policyFile,
+      JSON.stringify({
+        constraints: [
+          { method: "clearGroup", param: "group", allow: ["1*"] },
+          { method: "getAllAccounts", param: "code", allow: ["1*"] },
+        ],
+      }),
+    );
+    const client = await connect({ POLICY_FILE: policyFile });
+    try {
+      const cleared = await client.callTool({
+        name: "smartschool-clearGroup",
+        arguments: { group: "3B", dryRun: true },
+      });
+      assert.equal(cleared.isError, true);
+      assert.match(textOf(cleared), /clearGroup\.group = '3B' is not allowed/);
+
+      const deleted = await client.callTool({
+        name: "smartschool-delClass",
+        arguments: { code: "3B", dryRun: true },
+      });
+      assert.equal(deleted.isError, true);
+      assert.match(textOf(deleted), /preview needs getAllAccounts/);
+      assert.ok(!mock.calls.some((call) => call.method === "getAllAccounts"));
+    } finally {
+      await client.close();
+    }
+  });
+
+  test("an import row fails when its username cannot be checked", async () => {
+    const policyFile = join(workDir, "policy.json");
+    await writeFile(
+      policyFile,
+      JSON.stringify({
+        rules: [
+          { effect: "allow", methods: ["saveUser"] },
+          {
+            effect: "deny",
+            methods: ["getAllAccountsExtended", "getUserDetailsByUsername"],
+          },
+        ],
+      }),
+    );
+    const client = await connect({ POLICY_FILE: policyFile });
+    try {
+      const result = await client.callTool({
+        name: "smartschool-importUsers",
+        arguments: { csv: "voornaam;naam;rol\nNina;Smets;leerling\n" },
+      });
+      assert.match(
+        textOf(result),
+        /could not check whether 'nina\.smets' is free/,
+      );
+      assert.doesNotMatch(textOf(result), /confirmationToken/);
+      assert.ok(
+        !mock.calls.some((call) => call.method === "getAllAccountsExtended"),
+      );
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("multiple schools", () => {
+  let second: MockSmartschool;
+  let client: Client;
+  before(async () => {
+    second = await startMockSmartschool({ accessCode: "second-access-code" });
+    const schoolsFile = join(workDir, "schools.json");
+    await writeFile(
+      schoolsFile,
+      JSON.stringify({
+        default: "noord",
+        schools: {
+          noord: {
+            description: "Campus Noord",
+            apiEndpoint: mock.url,
+            accessCode: mock.accessCode,
+          },
+          zuid: {
+            description: "Campus Zuid",
+            apiEndpoint: second.url,
+            accessCodeEnv: "ZUID_ACCESS_CODE",
+            allowDestructive: true,
+          },
+        },
+      }),
+    );
+    client = await connect({
+      SMARTSCHOOL_SCHOOLS_FILE: schoolsFile,
+      ZUID_ACCESS_CODE: second.accessCode,
+    });
+  });
+  after(async () => {
+    await client.close();
+    await second.close();
+  });
+  beforeEach(() => second.reset());
+
+  test("smartschool-schools lists the schools without access codes", async () => {
+    const result = await client.callTool({
+      name: "smartschool-schools",
+      arguments: {},
+    });
+    const text = textOf(result);
+    assert.match(text, /"name": "noord"/);
+    assert.match(text, /"name": "zuid"/);
+    assert.ok(!text.includes(mock.accessCode), text);
+    assert.ok(!text.includes(second.accessCode), text);
+  });
+
+  test("tools take a school parameter and call that platform", async () => {
+    const { tools } = await client.listTools();
+    const getUserDetails = tools.find(
+      (tool) => tool.name === "smartschool-getUserDetails",
+    );
+    assert.ok(getUserDetails?.inputSchema.properties?.school);
+
+    const result = await client.callTool({
+      name: "smartschool-getUserDetails",
+      arguments: { school: "zuid", userIdentifier: "emma.wouters" },
+    });
+    assert.notEqual(result.isError, true, textOf(result));
+    assert.ok(second.calls.some((call) => call.method === "getUserDetails"));
+    assert.ok(!mock.calls.some((call) => call.method === "getUserDetails"));
+  });
+
+  test("calls without a school go to the default school", async () => {
+    await client.callTool({
+      name: "smartschool-getUserDetails",
+      arguments: { userIdentifier: "emma.wouters" },
+    });
+    assert.ok(mock.calls.some((call) => call.method === "getUserDetails"));
+    assert.ok(!second.calls.some((call) => call.method === "getUserDetails"));
+  });
+
+  test("each school applies its own policy", async () => {
+    const { tools } = await client.listTools();
+    assert.ok(tools.some((tool) => tool.name === "smartschool-saveUser"));
+
+    const blocked = await client.callTool({
+      name: "smartschool-saveUser",
+      arguments: {
+        school: "noord",
+        username: "lotte.smets",
+        name: "Lotte",
+        surname: "Smets",
+        basisrol: "leerling",
+      },
+    });
+    assert.equal(blocked.isError, true);
+    assert.match(textOf(blocked), /disabled/);
+
+    const allowed = await client.callTool({
+      name: "smartschool-saveUser",
+      arguments: {
+        school: "zuid",
+        username: "lotte.smets",
+        name: "Lotte",
+        surname: "Smets",
+        basisrol: "leerling",
+      },
+    });
+    assert.equal(structuredOf(allowed).status, "confirmation_required");
+  });
+
+  test("a blocked call never looks up names", async () => {
+    const blocked = await client.callTool({
+      name: "smartschool-delUser",
+      arguments: { school: "noord", userIdentifier: "Jan Peeters" },
+    });
+    assert.equal(blocked.isError, true);
+    assert.match(textOf(blocked), /disabled/);
+    assert.doesNotMatch(textOf(blocked), /jan\.peeters/);
+    assert.ok(
+      !mock.calls.some((call) => call.method === "getAllAccountsExtended"),
+    );
+  });
+});
+
+describe("parameter validation", () => {
+  let client: Client;
+  before(async () => {
+    client = await connect();
+  });
+  after(async () => {
+    await client.close();
+  });
+
+  const rejects = async (name: string, args: Record<string, unknown>) => {
+    try {
+      const result = await client.callTool({ name, arguments: args });
+      assert.equal(result.isError, true, textOf(result));
+    } catch (error) {
+      assert.ok(error instanceof Error);
+      assert.match(error.message, /invalid/i);
+    }
+  };
+
+  test("missing required parameters are rejected", async () => {
+    await rejects("smartschool-getUserDetails", {});
+  });
+
+  test("parameters of the wrong type are rejected", async () => {
+    await rejects("smartschool-getUserDetails", { userIdentifier: 1001 });
+  });
+
+  test("no call reaches Smartschool for invalid input", async () => {
+    await rejects("smartschool-saveUserToClass", { userIdentifier: "jan" });
+    assert.ok(!mock.calls.some((call) => call.method === "saveUserToClass"));
+  });
+});
+
+describe("redaction profiles", () => {
+  test("minimal hides contact details and masks parent names", async () => {
+    const client = await connect({ REDACTION_PROFILE: "minimal" });
+    try {
+      const result = await client.callTool({
+        name: "smartschool-getAllAccountsExtended",
+        arguments: { code: "1A", recursive: "0" },
+      });
+      const structured = structuredOf(result);
+      const jan = structured.result.find(
+        (record: Record<string, unknown>) =>
+          record.gebruikersnaam === "jan.peeters",
+      );
+      assert.equal(jan.naam_coaccount1, "[redacted]");
+      assert.ok(!("email_coaccount1" in jan));
+      assert.ok(!("emailadres" in jan));
+      assert.equal(structured.redaction?.profile, "minimal");
+      assert.match(textOf(result), /🔒 \d+ field\(s\) hidden/);
+    } finally {
+      await client.close();
+    }
+  });
+
+  test("resources and findUser apply the profile too", async () => {
+    const profilesFile = join(workDir, "redaction.json");
+    await writeFile(
+      profilesFile,
+      JSON.stringify({ "no-surnames": { drop: ["naam", "lastName"] } }),
+    );
+    const client = await connect({
+      REDACTION_PROFILE: "no-surnames",
+      REDACTION_PROFILES_FILE: profilesFile,
+    });
+    try {
+      const members = await client.readResource({
+        uri: "smartschool://classes/1A/members",
+      });
+      const records = JSON.parse(String(members.contents[0].text));
+      assert.ok(records.length > 0);
+      assert.ok(records.every((record: object) => !("naam" in record)));
+      assert.ok(records.every((record: object) => "voornaam" in record));
+
+      const found = await client.callTool({
+        name: "smartschool-findUser",
+        arguments: { query: "Emma" },
+      });
+      assert.match(textOf(found), /emma\.wouters/);
+      assert.doesNotMatch(textOf(found), /Wouters/);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("result formatting", () => {
+  let client: Client;
+  before(async () => {
+    client = await connect({ ALLOW_DESTRUCTIVE: "true" });
+  });
+  after(async () => {
+    await client.close();
+  });
+
+  test("results come back as structured content and a short text", async () => {
+    const result = await client.callTool({
+      name: "smartschool-getUserDetails",
+      arguments: { userIdentifier: "emma.wouters" },
+    });
+    const text = textOf(result);
+    assert.ok(text.startsWith("📊 getUserDetails result:"), text);
+    assert.match(text, /• voornaam: Emma/);
+
+    const structured = structuredOf(result);
+    assert.equal(structured.method, "getUserDetails");
+    assert.equal(structured.status, "success");
+    assert.equal(structured.result.voornaam, "Emma");
+    assert.equal(structured.result.groups[0].code, "1A");
+  });
+
+  test("lists are summarised with a record count", async () => {
+    const result = await client.callTool({
+      name: "smartschool-getAllAccounts",
+      arguments: { code: "1A", recursive: "0" },
+    });
+    assert.match(textOf(result), /📊 getAllAccounts: 2 record\(s\)/);
+    assert.equal(structuredOf(result).result.length, 2);
+  });
+
+  test("list results are filtered, projected and paged", async () => {
+    const args = {
+      code: "Leerlingen",
+      recursive: "1",
+      filter: { status: "actief" },
+      fields: ["gebruikersnaam", "klasnaam"],
+      limit: 2,
+    };
+    const first = await client.callTool({
+      name: "smartschool-getAllAccountsExtended",
+      arguments: args,
+    });
+    const page = structuredOf(first).page;
+    assert.ok(page);
+    assert.deepEqual(
+      { total: page.total, matched: page.matched, returned: page.returned },
+      { total: 6, matched: 5, returned: 2 },
+    );
+    assert.deepEqual(Object.keys(structuredOf(first).result[0]).sort(), [
+      "gebruikersnaam",
+      "klasnaam",
+    ]);
+    assert.match(textOf(first), /📄 Records 1-2 of 5 \(6 before filtering\)/);
+
+    const second = await client.callTool({
+      name: "smartschool-getAllAccountsExtended",
+      arguments: { ...args, cursor: page.nextCursor },
+    });
+    assert.equal(structuredOf(second).page?.offset, 2);
+
+    const mismatched = await client.callTool({
+      name: "smartschool-getAllAccountsExtended",
+      arguments: { ...args, code: "1A", cursor: page.nextCursor },
+    });
+    assert.equal(mismatched.isError, true);
+  });
+
+  test("absence results explain the codes they contain", async () => {
+    const result = await client.callTool({
+      name: "smartschool-getAbsents",
+      arguments: { userIdentifier: "jan.peeters", schoolYear: "2024" },
+    });
+    const text = textOf(result);
+    assert.match(text, /📚 Absence Code Explanations:/);
+    assert.match(text, /• 'Z': Sick/);
+    assert.match(text, /• '-': Unknown/);
+  });
+
+  test("attendance ranges refuse dates that do not exist", async () => {
+    const result = await client.callTool({
+      name: "smartschool-attendanceRange",
+      arguments: { classCode: "1A", from: "2024-02-26", to: "2024-02-30" },
+    });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /existing dates/);
+    assert.ok(
+      !mock.calls.some((call) => call.method === "getAbsentsByDateAndGroup"),
+    );
+  });
+
+  test("a name resolves to the single matching account", async () => {
+    const result = await client.callTool({
+      name: "smartschool-getUserDetails",
+      arguments: { userIdentifier: "Emma Wouters" },
+    });
+    assert.notEqual(result.isError, true, textOf(result));
+    assert.ok(
+      mock.calls.some(
+        (call) =>
+          call.method === "getUserDetails" &&
+          call.params.userIdentifier === "emma.wouters",
+      ),
+    );
+  });
+
+  test("an ambiguous name lists the candidates", async () => {
+    const result = await client.callTool({
+      name: "smartschool-getUserDetails",
+      arguments: { userIdentifier: "Jan Peeters" },
+    });
+    assert.equal(result.isError, true);
+    const text = textOf(result);
+    assert.match(text, /is ambiguous/);
+    assert.match(text, /jan\.peeters\b/);
+    assert.match(text, /jan\.peeters2/);
+  });
+
+  test("moderate changes run directly and can be undone", async () => {
+    const result = await client.callTool({
+      name: "smartschool-saveUserToClass",
+      arguments: {
+        userIdentifier: "emma.wouters",
+        class: "2A",
+        officialDate: "2025-09-01",
+      },
+    });
+    const text = textOf(result);
+    assert.match(text, /✅ saveUserToClass completed successfully/);
+    assert.match(text, /↩️ Can be reverted with smartschool-undo/);
+    const emma = mock.state.users.find((u) => u.username === "emma.wouters");
+    assert.deepEqual(emma?.groups, ["2A"]);
+  });
+
+  test("undo takes a user out of a group again and back to their class", async () => {
+    const undo = async (result: ToolResult) => {
+      const id = textOf(result).match(/smartschool-undo \(id (\w+)\)/)?.[1];
+      assert.ok(id, textOf(result));
+      const undone = await client.callTool({
+        name: "smartschool-undo",
+        arguments: { id },
+      });
+      assert.notEqual(undone.isError, true, textOf(undone));
+    };
+    const emma = () =>
+      mock.state.users.find((u) => u.username === "emma.wouters")!;
+
+    await undo(
+      await client.callTool({
+        name: "smartschool-saveUserToClass",
+        arguments: { userIdentifier: "emma.wouters", class: "Sportklas" },
+      }),
+    );
+    assert.deepEqual(emma().groups, ["1A"]);
+
+    await undo(
+      await client.callTool({
+        name: "smartschool-saveUserToClass",
+        arguments: { userIdentifier: "emma.wouters", class: "2A" },
+      }),
+    );
+    assert.deepEqual(emma().groups, ["1A"]);
+  });
+
+  test("a status change can be undone although Smartschool reports it in Dutch", async () => {
+    const result = await client.callTool({
+      name: "smartschool-setAccountStatus",
+      arguments: { userIdentifier: "emma.wouters", accountStatus: "inactive" },
+    });
+    const id = textOf(result).match(/smartschool-undo \(id (\w+)\)/)?.[1];
+    assert.ok(id, textOf(result));
+    const undone = await client.callTool({
+      name: "smartschool-undo",
+      arguments: { id },
+    });
+    assert.notEqual(undone.isError, true, textOf(undone));
+    assert.equal(
+      mock.state.users.find((u) => u.username === "emma.wouters")?.status,
+      "actief",
+    );
+  });
+
+  test("the undo journal keeps user parameter values out of its records", async () => {
+    const emma = mock.state.users.find((u) => u.username === "emma.wouters")!;
+    emma.parameters = { bijnaam: "Em" };
+    const result = await client.callTool({
+      name: "smartschool-saveUserParameter",
+      arguments: {
+        userIdentifier: "emma.wouters",
+        paramName: "bijnaam",
+        paramValue: "Emmy",
+      },
+    });
+    const id = textOf(result).match(/smartschool-undo \(id (\w+)\)/)?.[1];
+    assert.ok(id, textOf(result));
+    const journal = await readFile(join(workDir, "undo.jsonl"), "utf8");
+    const entry = journal
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line))
+      .find((candidate) => candidate.id === id);
+    assert.equal(entry.params.paramValue, "[REDACTED]");
+    assert.doesNotMatch(JSON.stringify(entry), /Emmy/);
+
+    const undone = await client.callTool({
+      name: "smartschool-undo",
+      arguments: { id },
+    });
+    assert.notEqual(undone.isError, true, textOf(undone));
+    assert.equal(emma.parameters?.bijnaam, "Em");
+  });
+
+  test("destructive changes need a confirmation token", async () => {
+    const args = {
+      username: "lotte.smets",
+      name: "Lotte",
+      surname: "Smets",
+      basisrol: "leerling",
+    };
+    const first = await client.callTool({
+      name: "smartschool-saveUser",
+      arguments: args,
+    });
+    const preview = textOf(first);
+    assert.match(preview, /⏸️ saveUser has NOT been executed yet/);
+    assert.equal(structuredOf(first).status, "confirmation_required");
+    assert.ok(!mock.calls.some((call) => call.method === "saveUser"));
+
+    const token = preview.match(/confirmationToken: "([^"]+)"/)?.[1];
+    assert.ok(token, preview);
+
+    const second = await client.callTool({
+      name: "smartschool-saveUser",
+      arguments: { ...args, confirmationToken: token },
+    });
+    assert.notEqual(second.isError, true, textOf(second));
+    assert.ok(mock.state.users.some((u) => u.username === "lotte.smets"));
+
+    const replay = await client.callTool({
+      name: "smartschool-saveUser",
+      arguments: { ...args, confirmationToken: token },
+    });
+    assert.equal(replay.isError, true);
+  });
+
+  test("destructive changes are refused when the audit log cannot be written", async () => {
+    const blocker = join(workDir, "not-a-directory");
+    await writeFile(blocker, "");
+    const unaudited = await connect({
+      ALLOW_DESTRUCTIVE: "true",
+      REQUIRE_CONFIRMATION: "false",
+      AUDIT_LOG_FILE: join(blocker, "audit.jsonl"),
+    });
+    try {
+      const result = await unaudited.callTool({
+        name: "smartschool-delUser",
+        arguments: { userIdentifier: "mila.jacobs" },
+      });
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /audit log .* cannot be written/);
+      assert.ok(!mock.calls.some((call) => call.method === "delUser"));
+    } finally {
+      await unaudited.close();
+    }
+  });
+
+  test("dry runs report the impact without changing anything", async () => {
+    const result = await client.callTool({
+      name: "smartschool-delUser",
+      arguments: { userIdentifier: "mila.jacobs", dryRun: true },
+    });
+    assert.match(textOf(result), /🔍 Dry run for delUser: nothing was changed/);
+    assert.ok(mock.state.users.some((u) => u.username === "mila.jacobs"));
+  });
+
+  test("Smartschool errors are reported as tool errors", async () => {
+    const result = await client.callTool({
+      name: "smartschool-getUserDetails",
+      arguments: { userIdentifier: "no.such.user" },
+    });
+    assert.equal(result.isError, true);
+    assert.equal(structuredOf(result).status, "error");
+  });
+});
+
+describe("account photos", () => {
+  let client: Client;
+  let uploadDir: string;
+  before(async () => {
+    uploadDir = join(workDir, "uploads");
+    await mkdir(uploadDir, { recursive: true });
+    client = await connect({ UPLOAD_DIRS: uploadDir });
+  });
+  after(async () => {
+    await client.close();
+  });
+
+  test("a photo file is cropped to a square JPEG before upload", async () => {
+    const photoPath = join(uploadDir, "emma.png");
+    await sharp({
+      create: { width: 800, height: 600, channels: 3, background: "#3366cc" },
+    })
+      .png()
+      .toFile(photoPath);
+
+    const result = await client.callTool({
+      name: "smartschool-setAccountPhoto",
+      arguments: { userIdentifier: "emma.wouters", photoPath },
+    });
+    assert.notEqual(result.isError, true, textOf(result));
+
+    const emma = mock.state.users.find((u) => u.username === "emma.wouters");
+    const uploaded = await sharp(Buffer.from(emma?.photo ?? "", "base64"))
+      .metadata()
+      .catch(() => undefined);
+    assert.equal(uploaded?.format, "jpeg");
+    assert.equal(uploaded?.width, 400);
+    assert.equal(uploaded?.height, 400);
+  });
+
+  test("files outside UPLOAD_DIRS and non-images are refused", async () => {
+    const outside = join(workDir, "outside.png");
+    await writeFile(outside, "not an image");
+    const refused = await client.callTool({
+      name: "smartschool-setAccountPhoto",
+      arguments: { userIdentifier: "emma.wouters", photoPath: outside },
+    });
+    assert.equal(refused.isError, true);
+    assert.match(textOf(refused), /outside the upload directories/);
+
+    const notImage = join(uploadDir, "notes.png");
+    await writeFile(notImage, "not an image");
+    const rejected = await client.callTool({
+      name: "smartschool-setAccountPhoto",
+      arguments: { userIdentifier: "emma.wouters", photoPath: notImage },
+    });
+    assert.equal(rejected.isError, true);
+    assert.match(textOf(rejected), /not an image/);
+    assert.ok(!mock.calls.some((call) => call.method === "setAccountPhoto"));
+  });
+
+  test("getAccountPhoto returns image content", async () => {
+    const photo = await sharp({
+      create: { width: 200, height: 200, channels: 3, background: "#cc3366" },
+    })
+      .jpeg()
+      .toBuffer();
+    const emma = mock.state.users.find((u) => u.username === "emma.wouters");
+    if (emma) emma.photo = photo.toString("base64");
+
+    const result = await client.callTool({
+      name: "smartschool-getAccountPhoto",
+      arguments: { userIdentifier: "emma.wouters" },
+    });
+    const image = contentOf(result).find(
+      (item): item is ImageContent => item.type === "image",
+    );
+    assert.equal(image?.mimeType, "image/jpeg");
+    assert.equal(image?.data, photo.toString("base64"));
+    assert.deepEqual(structuredOf(result).result, {
+      mimeType: "image/jpeg",
+      bytes: photo.length,
+      width: 200,
+      height: 200,
+    });
+  });
+});
+
+describe("messages", () => {
+  let client: Client;
+  let uploadDir: string;
+  before(async () => {
+    uploadDir = join(workDir, "attachments");
+    await mkdir(uploadDir, { recursive: true });
+    client = await connect({ UPLOAD_DIRS: uploadDir });
+  });
+  after(async () => {
+    await client.close();
+  });
+
+  test("a Markdown message with an attachment is previewed, then sent", async () => {
+    const letter = join(uploadDir, "uitnodiging.pdf");
+    await writeFile(letter, "%PDF-1.4 invitation");
+    const args = {
+      userIdentifier: "emma.wouters",
+      coaccount: 1,
+      title: "Oudercontact",
+      body: "Beste ouder,\n\nWelkom op het **oudercontact**.<script>alert(1)</script>",
+      bodyFormat: "markdown",
+      senderIdentifier: "Null",
+      attachmentPaths: [letter],
+    };
+
+    const preview = await client.callTool({
+      name: "smartschool-sendMsg",
+      arguments: args,
+    });
+    const structured = structuredOf(preview);
+    assert.equal(structured.status, "confirmation_required");
+    const details = structured.preview?.details ?? {};
+    assert.match(String(details.body), /<strong>oudercontact<\/strong>/);
+    assert.doesNotMatch(String(details.body), /script/);
+    assert.deepEqual(details.attachments, [
+      { name: "uitnodiging.pdf", mimeType: "application/pdf", bytes: 19 },
+    ]);
+    assert.equal(mock.outbox.length, 0);
+
+    const sent = await client.callTool({
+      name: "smartschool-sendMsg",
+      arguments: { ...args, confirmationToken: structured.confirmationToken },
+    });
+    assert.notEqual(sent.isError, true, textOf(sent));
+    assert.equal(mock.outbox.length, 1);
+    assert.match(mock.outbox[0].body, /<strong>oudercontact<\/strong>/);
+    assert.deepEqual(mock.outbox[0].attachments, [
+      {
+        filename: "uitnodiging.pdf",
+        filedata: Buffer.from("%PDF-1.4 invitation").toString("base64"),
+      },
+    ]);
+  });
+
+  test("messages are previewed even without REQUIRE_CONFIRMATION", async () => {
+    const unconfirmed = await connect({ REQUIRE_CONFIRMATION: "false" });
+    try {
+      const preview = await unconfirmed.callTool({
+        name: "smartschool-sendMsg",
+        arguments: {
+          userIdentifier: "emma.wouters",
+          title: "Uitstap",
+          body: "Morgen vertrekken we om 8u.",
+          senderIdentifier: "Null",
+        },
+      });
+      assert.equal(structuredOf(preview).status, "confirmation_required");
+      assert.ok(structuredOf(preview).confirmationToken);
+      assert.equal(mock.outbox.length, 0);
+    } finally {
+      await unconfirmed.close();
+    }
+  });
+
+  test("attachments of a type that is not allowed are refused", async () => {
+    const program = join(uploadDir, "setup.exe");
+    await writeFile(program, "MZ");
+    const result = await client.callTool({
+      name: "smartschool-sendMsg",
+      arguments: {
+        userIdentifier: "emma.wouters",
+        title: "Test",
+        body: "Test",
+        senderIdentifier: "Null",
+        attachmentPaths: [program],
+      },
+    });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /\.exe files are not accepted/);
+    assert.equal(mock.outbox.length, 0);
+  });
+
+  const bulkArgs = {
+    code: "1A",
+    title: "Portaal voor {firstname}",
+    body: "Beste ouder van {firstname},\n\nBekijk [het rapport](https://school.example/rapport/{username}).",
+    bodyFormat: "markdown",
+    senderIdentifier: "Null",
+  };
+
+  test("a bulk message is previewed, then sent with progress notifications", async () => {
+    const preview = await client.callTool({
+      name: "smartschool-sendBulkMsg",
+      arguments: bulkArgs,
+    });
+    const text = textOf(preview);
+    assert.match(text, /📬 2 message\(s\) to 1 member\(s\) of 1A; 2 skipped/);
+    assert.match(text, /https:\/\/school\.example\/rapport\/jan\.peeters/);
+    assert.equal(mock.outbox.length, 0);
+    const confirmationToken = text.match(/confirmationToken: "([^"]+)"/)?.[1];
+    assert.ok(confirmationToken, text);
+
+    const progress: number[] = [];
+    const sent = await client.callTool(
+      {
+        name: "smartschool-sendBulkMsg",
+        arguments: { ...bulkArgs, confirmationToken },
+      },
+      undefined,
+      { onprogress: ({ progress: done }) => progress.push(done) },
+    );
+    assert.notEqual(sent.isError, true, textOf(sent));
+    assert.match(textOf(sent), /2 sent, 0 failed, 2 skipped/);
+    assert.deepEqual(progress, [1, 2]);
+    assert.deepEqual(
+      mock.outbox.map(({ userIdentifier, coaccount, title }) => ({
+        userIdentifier,
+        coaccount,
+        title,
+      })),
+      [
+        {
+          userIdentifier: "jan.peeters",
+          coaccount: 1,
+          title: "Portaal voor Jan",
+        },
+        {
+          userIdentifier: "jan.peeters",
+          coaccount: 2,
+          title: "Portaal voor Jan",
+        },
+      ],
+    );
+  });
+
+  test("a bulk message is not sent when the class changed after the preview", async () => {
+    const preview = await client.callTool({
+      name: "smartschool-sendBulkMsg",
+      arguments: bulkArgs,
+    });
+    const confirmationToken = textOf(preview).match(
+      /confirmationToken: "([^"]+)"/,
+    )?.[1];
+    assert.ok(confirmationToken, textOf(preview));
+
+    mock.state.users.find(
+      (user) => user.username === "emma.wouters",
+    )!.coaccounts = { 1: { firstName: "Ilse", lastName: "Wouters" } };
+    const sent = await client.callTool({
+      name: "smartschool-sendBulkMsg",
+      arguments: { ...bulkArgs, confirmationToken },
+    });
+    assert.equal(sent.isError, true);
+    assert.match(textOf(sent), /recipients of 1A may have changed/);
+    assert.equal(mock.outbox.length, 0);
+  });
+});
+
+describe("user import", () => {
+  test("a dry run plans the rows and its token applies the plan", async () => {
+    const client = await connect({ ALLOW_DESTRUCTIVE: "true" });
+    try {
+      const args = {
+        csv: [
+          "voornaam;naam;rol;internnummer;klas",
+          "Nina;Smets;leerling;2001;1A",
+          "Jan;Peeters;leerling;2002;1A",
+          "Lotte;;leerling;2003;1A",
+        ].join("\n"),
+      };
+
+      const plan = await client.callTool({
+        name: "smartschool-importUsers",
+        arguments: args,
+      });
+      assert.notEqual(plan.isError, true, textOf(plan));
+      assert.match(
+        textOf(plan),
+        /Import dry run, nothing was changed\. 3 row\(s\): 2 to create, 0 to update, 1 invalid/,
+      );
+      assert.match(
+        textOf(plan),
+        /'jan\.peeters' is taken by someone else; using 'jan\.peeters3'/,
+      );
+      assert.ok(!mock.calls.some((call) => call.method === "saveUser"));
+      const token = textOf(plan).match(/confirmationToken: "([^"]+)"/)?.[1];
+      assert.ok(token, textOf(plan));
+
+      const applied = await client.callTool({
+        name: "smartschool-importUsers",
+        arguments: { ...args, confirmationToken: token },
+      });
+      assert.match(
+        textOf(applied),
+        /Import finished: 2 row\(s\) done, 1 failed or invalid/,
+      );
+      assert.match(textOf(applied), /run the import again with rows: \[4\]/);
+      const users = new Map(
+        mock.state.users.map((user) => [user.username, user]),
+      );
+      assert.deepEqual(users.get("nina.smets")?.groups, ["1A"]);
+      assert.equal(users.get("jan.peeters3")?.internNumber, "2002");
+      assert.equal(users.get("jan.peeters")?.internNumber, "1001");
+    } finally {
+      await client.close();
+    }
+  });
+  test("CSV files are not read without UPLOAD_DIRS", async () => {
+    const csvFile = join(workDir, "leerlingen.csv");
+    await writeFile(csvFile, "voornaam;naam;rol\nNina;Smets;leerling\n");
+    const client = await connect({ ALLOW_DESTRUCTIVE: "true" });
+    try {
+      const result = await client.callTool({
+        name: "smartschool-importUsers",
+        arguments: { filePath: csvFile },
+      });
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /reads no local files until UPLOAD_DIRS/);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("resilience", () => {
+  let client: Client;
+  before(async () => {
+    client = await connect({
+      CLIENT_TIMEOUT_MS: "200",
+      CLIENT_RETRIES: "1",
+      CLIENT_RETRY_BASE_MS: "10",
+      CIRCUIT_FAILURE_THRESHOLD: "3",
+      CIRCUIT_RESET_SECONDS: "60",
+    });
+  });
+  after(async () => {
+    await client.close();
+  });
+
+  const callsOf = (method: string) =>
+    mock.calls.filter((call) => call.method === method).length;
+
+  test("timeouts are retried for safe methods, never for mutations, and open the circuit", async () => {
+    mock.delayMs = 1000;
+
+    const read = await client.callTool({
+      name: "smartschool-getUserDetails",
+      arguments: { userIdentifier: "emma.wouters" },
+    });
+    assert.equal(read.isError, true);
+    assert.match(textOf(read), /did not answer getUserDetails within 0.2s/);
+    assert.equal(callsOf("getUserDetails"), 2);
+
+    const removed = await client.callTool({
+      name: "smartschool-setAccountPhoto",
+      arguments: { userIdentifier: "emma.wouters", photo: "" },
+    });
+    assert.equal(removed.isError, true);
+    assert.match(textOf(removed), /may still have been applied/);
+    assert.equal(callsOf("setAccountPhoto"), 1);
+
+    // Three failures in a row: the next request fails without reaching the mock
+    mock.delayMs = 0;
+    const blocked = await client.callTool({
+      name: "smartschool-getUserDetails",
+      arguments: { userIdentifier: "emma.wouters" },
+    });
+    assert.equal(blocked.isError, true);
+    assert.match(textOf(blocked), /not responding.*maintenance/);
+    assert.equal(callsOf("getUserDetails"), 2);
+  });
+
+  test("a mutation that timed out drops the cached data it may have changed", async () => {
+    const cached = await connect({
+      CACHE_ENABLED: "true",
+      CLIENT_TIMEOUT_MS: "200",
+      CLIENT_RETRIES: "0",
+    });
+    try {
+      const read = () =>
+        cached.callTool({
+          name: "smartschool-getUserDetails",
+          arguments: { userIdentifier: "emma.wouters" },
+        });
+      await read();
+      await read();
+      assert.equal(callsOf("getUserDetails"), 1);
+
+      mock.delayMs = 1000;
+      const changed = await cached.callTool({
+        name: "smartschool-setAccountPhoto",
+        arguments: { userIdentifier: "emma.wouters", photo: "" },
+      });
+      assert.match(textOf(changed), /may still have been applied/);
+
+      mock.delayMs = 0;
+      await read();
+      assert.equal(callsOf("getUserDetails"), 2);
+    } finally {
+      await cached.close();
+    }
+  });
+});
+
+describe("HTTP transport", () => {
+  const token = "e2e-token";
+  const otherToken = "e2e-other-token";
+  let server: ChildProcess;
+  let endpoint: string;
+
+  before(async () => {
+    const port = await new Promise<number>((resolve) => {
+      const probe = createServer().listen(0, "127.0.0.1", () => {
+        const { port } = probe.address() as { port: number };
+        probe.close(() => resolve(port));
+      });
+    });
+    server = spawn(process.execPath, [SERVER_ENTRY], {
+      env: {
+        PATH: process.env.PATH ?? "",
+        SMARTSCHOOL_API_ENDPOINT: mock.url,
+        SMARTSCHOOL_ACCESS_CODE: mock.accessCode,
+        MCP_TRANSPORT: "http",
+        MCP_HTTP_PORT: String(port),
+        MCP_HTTP_TOKENS: `alice:${token},bob:${otherToken}`,
+        AUDIT_ADMINS: "alice",
+        MCP_HTTP_SESSION_IDLE_SECONDS: "1",
+        CACHE_ENABLED: "false",
+        AUDIT_LOG_FILE: join(workDir, "audit.jsonl"),
+        UNDO_JOURNAL_FILE: join(workDir, "undo.jsonl"),
+        ROLLOVER_JOURNAL_DIR: join(workDir, "rollover"),
+      },
+      stdio: "ignore",
+    });
+    endpoint = `http://127.0.0.1:${port}/mcp`;
+
+    for (let attempt = 0; ; attempt++) {
+      const ready = await fetch(`http://127.0.0.1:${port}/readyz`).catch(
+        () => undefined,
+      );
+      if (ready?.ok) break;
+      if (attempt === 50) throw new Error("HTTP server did not start");
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  });
+  after(async () => {
+    const exited = new Promise((resolve) => server.once("exit", resolve));
+    server.kill("SIGTERM");
+    await exited;
+  });
+
+  const post = (body: string, headers: Record<string, string> = {}) =>
+    fetch(endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body,
+    });
+
+  const listTools = JSON.stringify({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "tools/list",
+  });
+
+  async function connectHttp(bearer = token): Promise<{
+    client: Client;
+    transport: StreamableHTTPClientTransport;
+  }> {
+    const transport = new StreamableHTTPClientTransport(new URL(endpoint), {
+      requestInit: { headers: { Authorization: `Bearer ${bearer}` } },
+    });
+    const client = new Client({ name: "e2e", version: "0.0.0" });
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  test("requires a bearer token", async () => {
+    const response = await post(listTools, { Authorization: "Bearer wrong" });
+    assert.equal(response.status, 401);
+  });
+
+  test("serves tools to an authenticated session", async () => {
+    const { client } = await connectHttp();
+    assert.ok((await toolNames(client)).has("smartschool-getUserDetails"));
+    await client.close();
+  });
+
+  test("the audit log shows users their own entries, admins all of them", async () => {
+    const { client: bob } = await connectHttp(otherToken);
+    const { client: alice } = await connectHttp();
+    try {
+      for (const client of [bob, alice]) {
+        const changed = await client.callTool({
+          name: "smartschool-setAccountStatus",
+          arguments: {
+            userIdentifier: "emma.wouters",
+            accountStatus: "actief",
+          },
+        });
+        assert.notEqual(changed.isError, true, textOf(changed));
+      }
+
+      const entriesOf = async (client: Client) => {
+        const result = await client.callTool({
+          name: "smartschool-audit-log",
+          arguments: { limit: 500 },
+        });
+        return JSON.parse(textOf(result).replace(/^[^\n]*\n/, "")) as {
+          actor: string;
+        }[];
+      };
+      const own = await entriesOf(bob);
+      assert.ok(own.length > 0);
+      assert.ok(own.every((entry) => entry.actor === "bob"));
+      const all = await entriesOf(alice);
+      const actors = new Set(all.map((entry) => entry.actor));
+      assert.ok(actors.has("alice") && actors.has("bob"));
+    } finally {
+      await bob.close();
+      await alice.close();
+    }
+  });
+
+  test("a confirmation token only works for the user it was issued to", async () => {
+    const { client: bob } = await connectHttp(otherToken);
+    const { client: alice } = await connectHttp();
+    try {
+      const args = {
+        userIdentifier: "emma.wouters",
+        title: "Test",
+        body: "Test",
+        senderIdentifier: "Null",
+      };
+      const preview = await bob.callTool({
+        name: "smartschool-sendMsg",
+        arguments: args,
+      });
+      const { confirmationToken } = structuredOf(preview);
+      assert.ok(confirmationToken, textOf(preview));
+
+      const stolen = await alice.callTool({
+        name: "smartschool-sendMsg",
+        arguments: { ...args, confirmationToken },
+      });
+      assert.equal(stolen.isError, true);
+      assert.match(textOf(stolen), /another user/);
+      assert.equal(mock.outbox.length, 0);
+    } finally {
+      await bob.close();
+      await alice.close();
+    }
+  });
+
+  test("answers malformed JSON with 400 and an oversized body with 413", async () => {
+    const malformed = await post("{not json");
+    assert.equal(malformed.status, 400);
+    assert.match((await malformed.json()).error.message, /not valid JSON/);
+
+    const oversized = await post(`"${"x".repeat(11 * 1024 * 1024)}"`);
+    assert.equal(oversized.status, 413);
+  });
+
+  test("answers an unknown session with 404", async () => {
+    const response = await post(listTools, {
+      "mcp-session-id": "00000000-0000-0000-0000-000000000000",
+    });
+    assert.equal(response.status, 404);
+  });
+
+  test("closes idle sessions", async () => {
+    const { client, transport } = await connectHttp();
+    const sessionId = transport.sessionId;
+    assert.ok(sessionId);
+
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    const response = await post(listTools, { "mcp-session-id": sessionId });
+    assert.equal(response.status, 404);
+    await client.close().catch(() => undefined);
+  });
+});
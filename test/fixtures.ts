@@ -0,0 +1,247 @@
+/**
+ * @file Seed data for the mock Smartschool web service
+ *
+ * A small school: staff, three official classes with students (two with
+ * parents on co-account 1/2), one sports group, courses and a week of
+ * absences in March 2025. Tests can rely on these names and codes.
+ */
+
+export interface MockCoAccount {
+  firstName: string;
+  lastName: string;
+  email?: string;
+}
+
+export interface MockUser {
+  username: string;
+  firstName: string;
+  lastName: string;
+  internNumber: string;
+  role: "leerling" | "leerkracht" | "directie";
+  status: "actief" | "niet actief";
+  email?: string;
+  /** Group and class codes; the first official class is the user's class */
+  groups: string[];
+  coaccounts?: Partial<Record<1 | 2, MockCoAccount>>;
+  /** Half-day codes per ISO date, as reported by getAbsents */
+  absences?: Record<string, { am: string; pm: string }>;
+  parameters?: Record<string, string>;
+  /** Base64 encoded account photo */
+  photo?: string;
+}
+
+export interface MockGroup {
+  code: string;
+  name: string;
+  desc: string;
+  isKlas: boolean;
+  parent?: string;
+  /** Usernames of the titularis (class teacher) */
+  teachers?: string[];
+}
+
+export interface MockCourse {
+  name: string;
+  desc: string;
+  teachers: string[];
+  groups: string[];
+}
+
+export interface MockFixtures {
+  users: MockUser[];
+  groups: MockGroup[];
+  courses: MockCourse[];
+}
+
+export const MOCK_ACCESS_CODE = "mock-access-code";
+
+/**
+ * Fresh copy of the seed data; the mock server mutates its own copy
+ */
+export function createFixtures(): MockFixtures {
+  return {
+    groups: [
+      {
+        code: "Leerlingen",
+        name: "Leerlingen",
+        desc: "Alle leerlingen",
+        isKlas: false,
+      },
+      {
+        code: "1A",
+        name: "1A",
+        desc: "Eerste jaar A",
+        isKlas: true,
+        parent: "Leerlingen",
+        teachers: ["an.janssens"],
+      },
+      {
+        code: "2A",
+        name: "2A",
+        desc: "Tweede jaar A",
+        isKlas: true,
+        parent: "Leerlingen",
+        teachers: ["tom.maes"],
+      },
+      {
+        code: "3B",
+        name: "3B",
+        desc: "Derde jaar B",
+        isKlas: true,
+        parent: "Leerlingen",
+        teachers: ["an.janssens"],
+      },
+      {
+        code: "Personeel",
+        name: "Personeel",
+        desc: "Alle personeelsleden",
+        isKlas: false,
+      },
+      {
+        code: "Sportklas",
+        name: "Sportklas",
+        desc: "Topsport volleybal",
+        isKlas: false,
+      },
+    ],
+
+    users: [
+      {
+        username: "an.janssens",
+        firstName: "An",
+        lastName: "Janssens",
+        internNumber: "T001",
+        role: "leerkracht",
+        status: "actief",
+        email: "an.janssens@school.example",
+        groups: ["Personeel"],
+      },
+      {
+        username: "tom.maes",
+        firstName: "Tom",
+        lastName: "Maes",
+        internNumber: "T002",
+        role: "leerkracht",
+        status: "actief",
+        email: "tom.maes@school.example",
+        groups: ["Personeel"],
+      },
+      {
+        username: "jan.peeters",
+        firstName: "Jan",
+        lastName: "Peeters",
+        internNumber: "1001",
+        role: "leerling",
+        status: "actief",
+        groups: ["1A", "Sportklas"],
+        coaccounts: {
+          1: {
+            firstName: "Els",
+            lastName: "Peeters",
+            email: "els.peeters@example.com",
+          },
+          2: {
+            firstName: "Koen",
+            lastName: "Peeters",
+            email: "koen.peeters@example.com",
+          },
+        },
+        absences: {
+          "2025-03-03": { am: "|", pm: "|" },
+          "2025-03-04": { am: "Z", pm: "Z" },
+          "2025-03-05": { am: "Z", pm: "|" },
+          "2025-03-06": { am: "L", pm: "|" },
+          "2025-03-07": { am: "-", pm: "-" },
+        },
+      },
+      {
+        username: "lisa.peeters",
+        firstName: "Lisa",
+        lastName: "Peeters",
+        internNumber: "1002",
+        role: "leerling",
+        status: "actief",
+        groups: ["3B"],
+        coaccounts: {
+          1: {
+            firstName: "Els",
+            lastName: "Peeters",
+            email: "els.peeters@example.com",
+          },
+        },
+        absences: {
+          "2025-03-03": { am: "|", pm: "|" },
+          "2025-03-04": { am: "|", pm: "|" },
+          "2025-03-05": { am: "D", pm: "|" },
+          "2025-03-06": { am: "|", pm: "|" },
+          "2025-03-07": { am: "|", pm: "|" },
+        },
+      },
+      {
+        username: "emma.wouters",
+        firstName: "Emma",
+        lastName: "Wouters",
+        internNumber: "1003",
+        role: "leerling",
+        status: "actief",
+        groups: ["1A"],
+        absences: {
+          "2025-03-03": { am: "|", pm: "|" },
+          "2025-03-04": { am: "|", pm: "|" },
+          "2025-03-05": { am: "|", pm: "|" },
+          "2025-03-06": { am: "|", pm: "|" },
+          "2025-03-07": { am: "L", pm: "|" },
+        },
+      },
+      {
+        username: "noah.claes",
+        firstName: "Noah",
+        lastName: "Claes",
+        internNumber: "1004",
+        role: "leerling",
+        status: "actief",
+        groups: ["2A", "Sportklas"],
+        coaccounts: {
+          1: { firstName: "Sofie", lastName: "Claes" },
+        },
+        absences: {
+          "2025-03-06": { am: "C", pm: "C" },
+        },
+      },
+      {
+        // Namesake of jan.peeters, for name disambiguation
+        username: "jan.peeters2",
+        firstName: "Jan",
+        lastName: "Peeters",
+        internNumber: "1006",
+        role: "leerling",
+        status: "actief",
+        groups: ["2A"],
+      },
+      {
+        username: "mila.jacobs",
+        firstName: "Mila",
+        lastName: "Jacobs",
+        internNumber: "1005",
+        role: "leerling",
+        status: "niet actief",
+        groups: ["3B"],
+      },
+    ],
+
+    courses: [
+      {
+        name: "Wiskunde",
+        desc: "Wiskunde eerste graad",
+        teachers: ["an.janssens"],
+        groups: ["1A", "2A"],
+      },
+      {
+        name: "Frans",
+        desc: "Frans derde jaar",
+        teachers: ["tom.maes"],
+        groups: ["3B"],
+      },
+    ],
+  };
+}
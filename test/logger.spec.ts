@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, test } from "node:test";
+
+/**
+ * @file Unit tests for the logger: redaction, truncation and LOG_FILE output
+ *
+ * The logger reads its settings when it is imported, so the environment is
+ * set first and the module is imported afterwards.
+ */
+
+let workDir: string;
+let logFile: string;
+let logger: typeof import("../src/logger.js").logger;
+let stderr: string[];
+const writeStderr = process.stderr.write;
+
+before(async () => {
+  workDir = await mkdtemp(join(tmpdir(), "smartschool-mcp-logger-"));
+  logFile = join(workDir, "logs", "server.jsonl");
+  process.env.LOG_FILE = logFile;
+  process.env.LOG_LEVEL = "info";
+  process.env.LOG_MAX_STRING_LENGTH = "32";
+  ({ logger } = await import("../src/logger.js"));
+
+  stderr = [];
+  process.stderr.write = ((chunk: string) => {
+    stderr.push(String(chunk));
+    return true;
+  }) as typeof process.stderr.write;
+});
+
+after(async () => {
+  process.stderr.write = writeStderr;
+  await rm(workDir, { recursive: true, force: true });
+});
+
+/**
+ * The entries written to LOG_FILE so far
+ */
+async function entries(): Promise<any[]> {
+  const contents = await readFile(logFile, "utf8");
+  return contents
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+async function lastEntry(): Promise<any> {
+  return (await entries()).at(-1);
+}
+
+describe("logger", () => {
+  test("writes the same JSON line to stderr and LOG_FILE", async () => {
+    logger.info("📚 Started", { schools: 2 });
+    const entry = await lastEntry();
+    assert.equal(entry.level, "info");
+    assert.equal(entry.msg, "📚 Started");
+    assert.equal(entry.schools, 2);
+    assert.ok(!Number.isNaN(Date.parse(entry.time)));
+    assert.equal(stderr.at(-1), `${JSON.stringify(entry)}\n`);
+  });
+
+  test("skips entries below LOG_LEVEL", async () => {
+    const before = (await entries()).length;
+    logger.debug("🔍 Details");
+    assert.equal((await entries()).length, before);
+  });
+
+  test("redacts passwords at any depth", async () => {
+    logger.info("🚀 Executing method", {
+      params: { username: "lotte.smets", passwd1: "Secret-1" },
+      rows: [{ user: { password: "Secret-2", passwd3: "Secret-3" } }],
+      record: { nested: { deeper: { passwordHint: "Secret-4" } } },
+      empty: { passwd2: "" },
+    });
+    const entry = await lastEntry();
+    assert.equal(entry.params.username, "lotte.smets");
+    assert.equal(entry.params.passwd1, "[REDACTED]");
+    assert.equal(entry.rows[0].user.password, "[REDACTED]");
+    assert.equal(entry.rows[0].user.passwd3, "[REDACTED]");
+    assert.equal(entry.record.nested.deeper.passwordHint, "[REDACTED]");
+    // Empty values show that nothing was passed
+    assert.equal(entry.empty.passwd2, "");
+    assert.doesNotMatch(JSON.stringify(entry), /Secret-/);
+  });
+
+  test("redacts attachment data and photos", async () => {
+    const filedata = Buffer.from("%PDF-1.4 short").toString("base64");
+    logger.info("📎 Sending", {
+      params: {
+        attachments: [{ filename: "rapport.pdf", filedata }],
+        photo: "iVBORw0KGgo=",
+      },
+      prepared: { files: [{ filename: "brief.pdf", filedata }] },
+    });
+    const entry = await lastEntry();
+    assert.equal(entry.params.attachments, "[REDACTED]");
+    assert.equal(entry.params.photo, "[REDACTED]");
+    assert.equal(entry.prepared.files[0].filename, "brief.pdf");
+    assert.equal(entry.prepared.files[0].filedata, "[REDACTED]");
+    assert.ok(!JSON.stringify(entry).includes(filedata));
+  });
+
+  test("truncates long strings to LOG_MAX_STRING_LENGTH", async () => {
+    logger.info("📝 Long", { body: "x".repeat(100), short: "kept" });
+    const entry = await lastEntry();
+    assert.equal(entry.body, `${"x".repeat(32)}… [100 chars]`);
+    assert.equal(entry.short, "kept");
+  });
+
+  test("reduces errors to their name and message", async () => {
+    logger.error("💥 Failed", { error: new TypeError("Bad input") });
+    const entry = await lastEntry();
+    assert.deepEqual(entry.error, { name: "TypeError", message: "Bad input" });
+  });
+
+  test("cuts off deeply nested values", async () => {
+    logger.info("🌳 Deep", { a: { b: { c: { d: { e: { f: { g: 1 } } } } } } });
+    const entry = await lastEntry();
+    assert.equal(entry.a.b.c.d.e.f, "[…]");
+  });
+});
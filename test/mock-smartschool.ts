@@ -0,0 +1,712 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { pathToFileURL } from "node:url";
+import { SCHEMA_REGISTRY } from "../src/schemas.js";
+import {
+  createFixtures,
+  MOCK_ACCESS_CODE,
+  type MockFixtures,
+  type MockGroup,
+  type MockUser,
+} from "./fixtures.js";
+
+/**
+ * @file Local stand-in for the Smartschool V3 SOAP web service
+ *
+ * Serves a WSDL (GET ...?wsdl) generated from SCHEMA_REGISTRY and answers
+ * SOAP calls (POST) from an in-memory copy of the fixtures, so the MCP
+ * server can run end to end without a real school:
+ *
+ *   SMARTSCHOOL_API_ENDPOINT=http://127.0.0.1:8750/Webservices/V3
+ *   SMARTSCHOOL_ACCESS_CODE=mock-access-code
+ *
+ * Like the real service, data comes back as a JSON string, mutations
+ * answer 0 and failures answer a numeric error code that
+ * returnJsonErrorCodes explains. Every call is recorded in `calls` and
+ * sent messages in `outbox`, so tests can assert on side effects.
+ */
+
+const MOCK_NAMESPACE = "urn:smartschool-mock";
+
+const MOCK_ERROR_CODES: Record<string, string> = {
+  "1": "Unknown error",
+  "2": "Invalid access code",
+  "3": "User not found",
+  "4": "Class or group not found",
+  "5": "Username already in use",
+  "6": "Required parameter missing",
+};
+
+type Params = Record<string, string>;
+type Handler = (state: MockFixtures, params: Params) => unknown;
+
+class MockError extends Error {
+  constructor(readonly code: keyof typeof MOCK_ERROR_CODES) {
+    super(MOCK_ERROR_CODES[code]);
+  }
+}
+
+export interface MockCall {
+  method: string;
+  params: Params;
+}
+
+export interface MockMessage {
+  userIdentifier: string;
+  coaccount: number;
+  title: string;
+  body: string;
+  senderIdentifier: string;
+  attachments: { filename: string; filedata: string }[];
+}
+
+export interface MockSmartschool {
+  /** Value for SMARTSCHOOL_API_ENDPOINT */
+  url: string;
+  accessCode: string;
+  /** Live state; mutations through the service change it */
+  state: MockFixtures;
+  calls: MockCall[];
+  outbox: MockMessage[];
+  /** Wait this long before answering, to simulate a hanging service */
+  delayMs: number;
+  /** Restore the seed data, forget recorded calls and stop delaying */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+// ============================================================================
+// XML HELPERS
+// ============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Method name and parameters of a SOAP request, ignoring namespaces
+ */
+function parseSoapRequest(xml: string): { method: string; params: Params } {
+  const body = xml.match(
+    /<(?:[\w-]+:)?Body[^>]*>([\s\S]*)<\/(?:[\w-]+:)?Body>/,
+  )?.[1];
+  const operation = body?.match(
+    /<(?:[\w-]+:)?([\w-]+)[^>]*?>([\s\S]*)<\/(?:[\w-]+:)?\1>/,
+  );
+  if (!operation) throw new Error("No SOAP operation in request body");
+
+  const params: Params = {};
+  const child =
+    /<(?:[\w-]+:)?([\w-]+)([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:[\w-]+:)?\1>)/g;
+  for (const [, name, , value] of operation[2].matchAll(child)) {
+    // Array items repeat the element; their contents are kept together
+    params[name] = (params[name] ?? "") + unescapeXml(value ?? "");
+  }
+  return { method: operation[1], params };
+}
+
+/**
+ * The {filename, filedata} objects of a sendMsg attachments parameter, sent
+ * as nested elements or as JSON
+ */
+function parseAttachments(
+  value: string | undefined,
+): MockMessage["attachments"] {
+  if (!value) return [];
+  if (value.trim().startsWith("[")) return JSON.parse(value);
+  const fields = (name: string) =>
+    [
+      ...value.matchAll(new RegExp(`<(?:[\\w-]+:)?${name}[^>]*>([^<]*)<`, "g")),
+    ].map(([, text]) => text);
+  const filedata = fields("filedata");
+  return fields("filename").map((filename, index) => ({
+    filename,
+    filedata: filedata[index] ?? "",
+  }));
+}
+
+function soapEnvelope(content: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<SOAP-ENV:Envelope xmlns:SOAP-ENV="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ns1="${MOCK_NAMESPACE}" xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" SOAP-ENV:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/"><SOAP-ENV:Body>${content}</SOAP-ENV:Body></SOAP-ENV:Envelope>`;
+}
+
+function soapResponse(method: string, value: unknown): string {
+  const isCode = typeof value === "number";
+  // Plain strings such as base64 photos are returned as they are
+  const text =
+    isCode || typeof value === "string" ? String(value) : JSON.stringify(value);
+  return soapEnvelope(
+    `<ns1:${method}Response><return xsi:type="${isCode ? "xsd:int" : "xsd:string"}">${escapeXml(text)}</return></ns1:${method}Response>`,
+  );
+}
+
+function soapFault(message: string): string {
+  return soapEnvelope(
+    `<SOAP-ENV:Fault><faultcode>SOAP-ENV:Client</faultcode><faultstring>${escapeXml(message)}</faultstring></SOAP-ENV:Fault>`,
+  );
+}
+
+/**
+ * RPC/encoded WSDL with every registered method, all parts as xsd:string
+ */
+function buildWsdl(location: string): string {
+  const methods = Object.entries(SCHEMA_REGISTRY).map(([name, schema]) => ({
+    name,
+    parts: [
+      "accesscode",
+      ...Object.keys(schema.shape).filter(
+        (key) => key !== "confirmationToken" && key !== "dryRun",
+      ),
+    ],
+  }));
+  const encoding = `use="encoded" namespace="${MOCK_NAMESPACE}" encodingStyle="http://schemas.xmlsoap.org/soap/encoding/"`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<definitions name="SmartschoolMock" targetNamespace="${MOCK_NAMESPACE}" xmlns:tns="${MOCK_NAMESPACE}" xmlns:soap="http://schemas.xmlsoap.org/wsdl/soap/" xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns="http://schemas.xmlsoap.org/wsdl/">
+${methods
+  .map(
+    ({ name, parts }) => `  <message name="${name}Request">
+${parts.map((part) => `    <part name="${part}" type="xsd:string"/>`).join("\n")}
+  </message>
+  <message name="${name}Response">
+    <part name="return" type="xsd:anyType"/>
+  </message>`,
+  )
+  .join("\n")}
+  <portType name="SmartschoolPortType">
+${methods
+  .map(
+    ({ name }) => `    <operation name="${name}">
+      <input message="tns:${name}Request"/>
+      <output message="tns:${name}Response"/>
+    </operation>`,
+  )
+  .join("\n")}
+  </portType>
+  <binding name="SmartschoolBinding" type="tns:SmartschoolPortType">
+    <soap:binding style="rpc" transport="http://schemas.xmlsoap.org/soap/http"/>
+${methods
+  .map(
+    ({ name }) => `    <operation name="${name}">
+      <soap:operation soapAction="${MOCK_NAMESPACE}#${name}" style="rpc"/>
+      <input><soap:body ${encoding}/></input>
+      <output><soap:body ${encoding}/></output>
+    </operation>`,
+  )
+  .join("\n")}
+  </binding>
+  <service name="SmartschoolService">
+    <port name="SmartschoolPort" binding="tns:SmartschoolBinding">
+      <soap:address location="${escapeXml(location)}"/>
+    </port>
+  </service>
+</definitions>`;
+}
+
+// ============================================================================
+// FIXTURE QUERIES
+// ============================================================================
+
+function findUser(state: MockFixtures, identifier: string): MockUser {
+  const wanted = identifier?.toLowerCase();
+  const user = state.users.find(
+    (candidate) =>
+      candidate.username.toLowerCase() === wanted ||
+      candidate.internNumber.toLowerCase() === wanted,
+  );
+  if (!user) throw new MockError("3");
+  return user;
+}
+
+function findGroup(state: MockFixtures, code: string): MockGroup {
+  const group = state.groups.find(
+    (candidate) => candidate.code.toLowerCase() === code?.toLowerCase(),
+  );
+  if (!group) throw new MockError("4");
+  return group;
+}
+
+function officialClass(state: MockFixtures, user: MockUser) {
+  return user.groups
+    .map((code) => state.groups.find((group) => group.code === code))
+    .find((group) => group?.isKlas);
+}
+
+function descendants(state: MockFixtures, code: string): string[] {
+  const children = state.groups
+    .filter((group) => group.parent === code)
+    .map((group) => group.code);
+  return [code, ...children.flatMap((child) => descendants(state, child))];
+}
+
+function members(state: MockFixtures, code: string, recursive: boolean) {
+  const codes = recursive
+    ? descendants(state, findGroup(state, code).code)
+    : [findGroup(state, code).code];
+  return state.users.filter((user) =>
+    user.groups.some((group) => codes.includes(group)),
+  );
+}
+
+function accountRecord(state: MockFixtures, user: MockUser) {
+  return {
+    gebruikersnaam: user.username,
+    voornaam: user.firstName,
+    naam: user.lastName,
+    internnummer: user.internNumber,
+    basisrol: user.role,
+    status: user.status,
+    klasnaam: officialClass(state, user)?.code ?? "",
+  };
+}
+
+function extendedRecord(state: MockFixtures, user: MockUser) {
+  const record: Record<string, unknown> = {
+    ...accountRecord(state, user),
+    emailadres: user.email ?? "",
+  };
+  for (const index of [1, 2] as const) {
+    const coaccount = user.coaccounts?.[index];
+    record[`voornaam_coaccount${index}`] = coaccount?.firstName ?? "";
+    record[`naam_coaccount${index}`] = coaccount?.lastName ?? "";
+    record[`email_coaccount${index}`] = coaccount?.email ?? "";
+    record[`status_coaccount${index}`] = coaccount ? "actief" : "niet actief";
+  }
+  return record;
+}
+
+function userDetails(state: MockFixtures, user: MockUser) {
+  const official = officialClass(state, user);
+  return {
+    ...extendedRecord(state, user),
+    ...user.parameters,
+    groups: user.groups.map((code) => {
+      const group = state.groups.find((candidate) => candidate.code === code);
+      return {
+        code,
+        name: group?.name ?? code,
+        desc: group?.desc ?? "",
+        isKlas: group?.isKlas ?? false,
+        isOfficial: group === official,
+      };
+    }),
+  };
+}
+
+function absencesOn(user: MockUser, date: string) {
+  return user.absences?.[date] ?? { am: "|", pm: "|" };
+}
+
+function absencesByDate(
+  state: MockFixtures,
+  params: Params,
+  key: (user: MockUser) => string,
+) {
+  return Object.fromEntries(
+    state.users
+      .filter((user) => user.role === "leerling")
+      .map((user) => [key(user), absencesOn(user, params.date)]),
+  );
+}
+
+function required(params: Params, ...names: string[]) {
+  if (names.some((name) => !params[name])) throw new MockError("6");
+}
+
+// ============================================================================
+// METHOD HANDLERS
+// ============================================================================
+
+const HANDLERS: Record<string, Handler> = {
+  // Reads
+  getUserDetails: (state, params) =>
+    userDetails(state, findUser(state, params.userIdentifier)),
+  getUserDetailsByUsername: (state, params) =>
+    userDetails(state, findUser(state, params.username)),
+  getUserDetailsByNumber: (state, params) =>
+    userDetails(state, findUser(state, params.number)),
+  getUserOfficialClass: (state, params) => {
+    const official = officialClass(
+      state,
+      findUser(state, params.userIdentifier),
+    );
+    return official ? { code: official.code, name: official.name } : {};
+  },
+  getStudentCareer: (state, params) => {
+    const official = officialClass(
+      state,
+      findUser(state, params.userIdentifier),
+    );
+    return official
+      ? [{ klas: official.code, startDate: "2024-09-01", endDate: null }]
+      : [];
+  },
+  getAllAccounts: (state, params) =>
+    members(state, params.code, params.recursive === "1").map((user) =>
+      accountRecord(state, user),
+    ),
+  getAllAccountsExtended: (state, params) =>
+    members(state, params.code, params.recursive === "1").map((user) =>
+      extendedRecord(state, user),
+    ),
+  getAllGroupsAndClasses: (state) =>
+    state.groups.map(({ teachers, ...group }) => group),
+  getClassList: (state) =>
+    state.groups
+      .filter((group) => group.isKlas)
+      .map(({ code, name, desc }) => ({ code, name, desc })),
+  getClassListJson: (state) =>
+    state.groups
+      .filter((group) => group.isKlas)
+      .map(({ code, name, desc }) => ({ code, name, desc })),
+  getClassTeachers: (state) =>
+    state.groups
+      .filter((group) => group.isKlas)
+      .map((group) => ({
+        klas: group.code,
+        titularis: (group.teachers ?? []).map((username) =>
+          accountRecord(state, findUser(state, username)),
+        ),
+      })),
+  getCourses: (state) =>
+    state.courses.map((course) => ({
+      name: course.name,
+      desc: course.desc,
+      teachers: course.teachers,
+      groups: course.groups,
+    })),
+  getAbsents: (state, params) =>
+    findUser(state, params.userIdentifier).absences ?? {},
+  getAbsentsWithAlias: (state, params) =>
+    findUser(state, params.userIdentifier).absences ?? {},
+  getAbsentsByDate: (state, params) =>
+    absencesByDate(state, params, (user) => user.username),
+  getAbsentsWithUsernameByDate: (state, params) =>
+    absencesByDate(state, params, (user) => user.username),
+  getAbsentsWithAliasByDate: (state, params) =>
+    absencesByDate(state, params, (user) => user.username),
+  getAbsentsWithInternalNumberByDate: (state, params) =>
+    absencesByDate(state, params, (user) => user.internNumber),
+  getAbsentsByDateAndGroup: (state, params) =>
+    Object.fromEntries(
+      members(state, params.code, false).map((user) => [
+        user.username,
+        absencesOn(user, params.date),
+      ]),
+    ),
+  getHelpdeskMiniDbItems: () => [
+    { id: "1", name: "ICT" },
+    { id: "2", name: "Gebouwen" },
+  ],
+  getReferenceField: () => [],
+  returnJsonErrorCodes: () => MOCK_ERROR_CODES,
+  checkStatus: (_state, params) => ({ serviceId: params.serviceId, status: 1 }),
+  getAccountPhoto: (state, params) =>
+    findUser(state, params.userIdentifier).photo ?? "",
+
+  // Mutations
+  saveUser: (state, params) => {
+    required(params, "username", "name", "surname", "basisrol");
+    const existing = state.users.find(
+      (user) => user.username.toLowerCase() === params.username.toLowerCase(),
+    );
+    if (
+      existing &&
+      params.internnumber &&
+      existing.internNumber !== params.internnumber
+    ) {
+      throw new MockError("5");
+    }
+    const user: MockUser = existing ?? {
+      username: params.username,
+      firstName: "",
+      lastName: "",
+      internNumber: params.internnumber ?? "",
+      role: "leerling",
+      status: "actief",
+      groups: [],
+    };
+    user.firstName = params.name;
+    user.lastName = params.surname;
+    user.role = params.basisrol as MockUser["role"];
+    if (params.email) user.email = params.email;
+    if (!existing) state.users.push(user);
+    return 0;
+  },
+  delUser: (state, params) => {
+    const user = findUser(state, params.userIdentifier);
+    state.users.splice(state.users.indexOf(user), 1);
+    return 0;
+  },
+  unregisterStudent: (state, params) => {
+    findUser(state, params.userIdentifier).groups = [];
+    return 0;
+  },
+  setAccountPhoto: (state, params) => {
+    const user = findUser(state, params.userIdentifier);
+    user.photo = params.photo || undefined;
+    return 0;
+  },
+  setAccountStatus: (state, params) => {
+    findUser(state, params.userIdentifier).status =
+      params.accountStatus === "actief" || params.accountStatus === "active"
+        ? "actief"
+        : "niet actief";
+    return 0;
+  },
+  changeUsername: (state, params) => {
+    required(params, "newUsername");
+    if (state.users.some((user) => user.username === params.newUsername)) {
+      throw new MockError("5");
+    }
+    findUser(state, params.internNumber).username = params.newUsername;
+    return 0;
+  },
+  saveUserParameter: (state, params) => {
+    const user = findUser(state, params.userIdentifier);
+    user.parameters = {
+      ...user.parameters,
+      [params.paramName]: params.paramValue,
+    };
+    return 0;
+  },
+  saveUserToClass: (state, params) => {
+    const user = findUser(state, params.userIdentifier);
+    const target = findGroup(state, params.class);
+    // An official class replaces the current one
+    user.groups = user.groups.filter(
+      (code) =>
+        !target.isKlas ||
+        !state.groups.find((group) => group.code === code)?.isKlas,
+    );
+    if (!user.groups.includes(target.code)) user.groups.push(target.code);
+    return 0;
+  },
+  saveUserToClasses: (state, params) => {
+    const user = findUser(state, params.userIdentifier);
+    const codes = params.csvList
+      .split(",")
+      .map((code) => code.trim())
+      .filter(Boolean)
+      .map((code) => findGroup(state, code).code);
+    user.groups = [...new Set([...user.groups, ...codes])];
+    return 0;
+  },
+  removeUserFromGroup: (state, params) => {
+    const user = findUser(state, params.userIdentifier);
+    const group = findGroup(state, params.class);
+    user.groups = user.groups.filter((code) => code !== group.code);
+    return 0;
+  },
+  clearGroup: (state, params) => {
+    const group = findGroup(state, params.group);
+    for (const user of state.users) {
+      user.groups = user.groups.filter((code) => code !== group.code);
+    }
+    return 0;
+  },
+  saveClass: (state, params) => {
+    required(params, "name", "code");
+    const existing = state.groups.find((group) => group.code === params.code);
+    const group: MockGroup = existing ?? {
+      code: params.code,
+      name: params.name,
+      desc: "",
+      isKlas: true,
+    };
+    Object.assign(group, {
+      name: params.name,
+      desc: params.desc ?? group.desc,
+      parent: params.parent || group.parent,
+    });
+    if (!existing) state.groups.push(group);
+    return 0;
+  },
+  saveGroup: (state, params) => {
+    required(params, "name", "code");
+    if (!state.groups.some((group) => group.code === params.code)) {
+      state.groups.push({
+        code: params.code,
+        name: params.name,
+        desc: params.desc ?? "",
+        isKlas: false,
+        parent: params.parent || undefined,
+      });
+    }
+    return 0;
+  },
+  delClass: (state, params) => {
+    const group = findGroup(state, params.code);
+    state.groups.splice(state.groups.indexOf(group), 1);
+    for (const user of state.users) {
+      user.groups = user.groups.filter((code) => code !== group.code);
+    }
+    return 0;
+  },
+  addCourse: (state, params) => {
+    required(params, "coursename", "coursedesc");
+    state.courses.push({
+      name: params.coursename,
+      desc: params.coursedesc,
+      teachers: [],
+      groups: [],
+    });
+    return 0;
+  },
+};
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Start the mock service on 127.0.0.1 (port 0 picks a free port)
+ */
+export async function startMockSmartschool(
+  options: {
+    port?: number;
+    accessCode?: string;
+  } = {},
+): Promise<MockSmartschool> {
+  const accessCode = options.accessCode ?? MOCK_ACCESS_CODE;
+  let url = "";
+
+  const mock: MockSmartschool = {
+    url: "",
+    accessCode,
+    state: createFixtures(),
+    calls: [],
+    outbox: [],
+    delayMs: 0,
+    reset() {
+      mock.state = createFixtures();
+      mock.calls.length = 0;
+      mock.outbox.length = 0;
+      mock.delayMs = 0;
+    },
+    close: async () => {
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      );
+    },
+  };
+
+  const handlers: Record<string, Handler> = {
+    ...HANDLERS,
+    sendMsg: (state, params) => {
+      findUser(state, params.userIdentifier);
+      mock.outbox.push({
+        userIdentifier: params.userIdentifier,
+        coaccount: Number(params.coaccount) || 0,
+        title: params.title,
+        body: params.body,
+        senderIdentifier: params.senderIdentifier,
+        attachments: parseAttachments(params.attachments),
+      });
+      return 0;
+    },
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    if (request.method === "GET" && /[?&]wsdl\b/i.test(request.url ?? "")) {
+      response.writeHead(200, { "Content-Type": "text/xml; charset=utf-8" });
+      response.end(buildWsdl(url));
+      return;
+    }
+    if (request.method !== "POST") {
+      response.writeHead(405).end();
+      return;
+    }
+
+    let parsed: { method: string; params: Params };
+    try {
+      parsed = parseSoapRequest(await readBody(request));
+    } catch (error) {
+      response.writeHead(500, { "Content-Type": "text/xml; charset=utf-8" });
+      response.end(soapFault((error as Error).message));
+      return;
+    }
+
+    const { accesscode, ...params } = parsed.params;
+    const method = parsed.method;
+    mock.calls.push({ method, params });
+    if (mock.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, mock.delayMs));
+    }
+
+    let value: unknown;
+    if (accesscode !== accessCode) {
+      value = 2;
+    } else if (handlers[method]) {
+      try {
+        value = handlers[method](mock.state, params);
+      } catch (error) {
+        if (!(error instanceof MockError)) throw error;
+        value = Number(error.code);
+      }
+    } else if (method in SCHEMA_REGISTRY) {
+      // Known but not simulated: accept the call without changing state
+      value = 0;
+    } else {
+      response.writeHead(500, { "Content-Type": "text/xml; charset=utf-8" });
+      response.end(soapFault(`Unknown method ${method}`));
+      return;
+    }
+
+    response.writeHead(200, { "Content-Type": "text/xml; charset=utf-8" });
+    response.end(soapResponse(method, value));
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      response.writeHead(500, { "Content-Type": "text/xml; charset=utf-8" });
+      response.end(soapFault(error?.message ?? String(error)));
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, "127.0.0.1", resolve),
+  );
+  const { port } = server.address() as AddressInfo;
+  url = `http://127.0.0.1:${port}/Webservices/V3`;
+  mock.url = url;
+  return mock;
+}
+
+// Run standalone: npm run mock-smartschool
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  const port = Number(process.env.MOCK_SMARTSCHOOL_PORT) || 8750;
+  startMockSmartschool({ port }).then((mock) => {
+    console.error(`🧪 Mock Smartschool listening on ${mock.url}`);
+    console.error(`   SMARTSCHOOL_API_ENDPOINT=${mock.url}`);
+    console.error(`   SMARTSCHOOL_ACCESS_CODE=${mock.accessCode}`);
+  });
+}